@@ -126,6 +126,10 @@ const Index = () => {
   };
 
   const handleGetCSPRAccountClick = async () => {
+    await invokeSnap({
+      method: 'casper_connect',
+      params: { addressIndices: [Number(accountInputValue)] },
+    });
     const accountResult = await invokeSnap({
       method: 'casper_getAccount',
       params: { addressIndex: Number(accountInputValue) },
@@ -133,18 +137,27 @@ const Index = () => {
     setAccountResultValue(accountResult.publicKey)
   };
 
+  const getChainName = async () => {
+    const network = (await invokeSnap({ method: 'casper_getNetwork' })) as {
+      chainName: string;
+    };
+    return network.chainName;
+  };
+
   const handleSignLegacyDeploy = async () => {
+    const chainName = await getChainName();
     const signLegacyDeployResult = await invokeSnap({
       method: 'casper_sign',
-      params: { addressIndex: Number(accountInputValue), deployJson: createLegacyDeploy(accountResultValue) },
+      params: { addressIndex: Number(accountInputValue), deployJson: createLegacyDeploy(accountResultValue, chainName) },
     });
     console.log(signLegacyDeployResult);
   };
 
   const handleSignTransaction = async () => {
+    const chainName = await getChainName();
     const signTransactionResult = await invokeSnap({
       method: 'casper_sign',
-      params: { addressIndex: Number(accountInputValue), deployJson: createTransaction(accountResultValue) },
+      params: { addressIndex: Number(accountInputValue), deployJson: createTransaction(accountResultValue, chainName) },
     });
     console.log(signTransactionResult);
   };
@@ -26,9 +26,10 @@ import {
  * Create a legacy deploy
  *
  * @param publicKey - Public Key hex string
+ * @param chainName - Chain name of the network
  * @returns A legacy deploy
  */
-export function createLegacyDeploy(publicKey: string) {
+export function createLegacyDeploy(publicKey: string, chainName: string) {
   const recipientKey = PublicKey.fromHex(
     '010068920746ecf5870e18911EE1fC5db975E0e97fFFcBBF52f5045Ad6C9838D2F',
   );
@@ -49,7 +50,7 @@ export function createLegacyDeploy(publicKey: string) {
 
   const deployHeader = DeployHeader.default();
   deployHeader.account = PublicKey.fromHex(publicKey);
-  deployHeader.chainName = 'casper-test';
+  deployHeader.chainName = chainName;
 
   return Deploy.toJson(Deploy.makeDeploy(deployHeader, payment, session));
 }
@@ -58,9 +59,10 @@ export function createLegacyDeploy(publicKey: string) {
  * Create a legacy deploy
  *
  * @param publicKey - Public Key hex string
+ * @param chainName - Chain name of the network
  * @returns A legacy deploy
  */
-export function createTransaction(publicKey: string) {
+export function createTransaction(publicKey: string, chainName: string) {
   const timestamp = new Timestamp(new Date());
   const paymentAmount = '20000000000000';
 
@@ -94,7 +96,7 @@ export function createTransaction(publicKey: string) {
     entryPoint,
     scheduling,
     transactionTarget,
-    chainName: 'casper-net-1',
+    chainName,
     pricingMode,
   });
 
@@ -0,0 +1,189 @@
+import { getBIP44AddressKeyDeriver, SLIP10Node } from '@metamask/key-tree';
+import { PublicKey } from 'casper-js-sdk';
+
+import { CasperError, CasperErrorCode } from './errors';
+import { getState } from './state';
+
+/* eslint-disable no-restricted-globals */
+
+/**
+ * The key types of the Casper accounts managed by the snap.
+ */
+export type KeyType = 'secp256k1' | 'ed25519';
+
+/**
+ * Everything a dapp needs to know about an account, so that it never has to
+ * derive the account hash or the checksummed key itself.
+ */
+export type AccountDescriptor = {
+  addressIndex: number;
+  // CEP-57 checksummed hex of the tagged public key.
+  publicKey: string;
+  // The account hash, formatted as `account-hash-<hex>`.
+  accountHash: string;
+  algorithm: KeyType;
+  derivationPath: string;
+  // The label of the account in the registry, if the user registered it.
+  label?: string;
+};
+
+/**
+ * The derivation path of the Ed25519 accounts, up to the address level. SLIP-10
+ * only supports hardened derivation on Ed25519, so every level is hardened.
+ */
+const ED25519_DERIVATION_PATH = ['m', "44'", "506'", "0'", "0'"];
+
+/**
+ * Derive the key of an account. Secp256k1 accounts follow BIP-44 for coin type
+ * 506, Ed25519 accounts follow SLIP-10 on the same path.
+ *
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @returns The derived key node.
+ */
+export async function getAccountKey(
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+) {
+  if (keyType === 'ed25519') {
+    const node = await snap.request({
+      method: 'snap_getBip32Entropy',
+      params: {
+        path: ED25519_DERIVATION_PATH,
+        curve: 'ed25519',
+      },
+    });
+    const parent = await SLIP10Node.fromJSON(node);
+    return await parent.derive([`slip10:${addressIndex}'`]);
+  }
+
+  const bip44Node = await snap.request({
+    method: 'snap_getBip44Entropy',
+    params: {
+      coinType: 506,
+    },
+  });
+  const bip44Nodeaddr = await getBIP44AddressKeyDeriver(bip44Node);
+  return await bip44Nodeaddr(addressIndex);
+}
+
+/**
+ * The derived key of an account.
+ */
+export type AccountKey = Awaited<ReturnType<typeof getAccountKey>>;
+
+/**
+ * Get the derivation path of an account.
+ *
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @returns The derivation path, e.g. `m/44'/506'/0'/0/0`.
+ */
+export function getDerivationPath(addressIndex: number, keyType: KeyType) {
+  if (keyType === 'ed25519') {
+    return `${ED25519_DERIVATION_PATH.join('/')}/${addressIndex}'`;
+  }
+  return `m/44'/506'/0'/0/${addressIndex}`;
+}
+
+/**
+ * Get the label of an account the user did not name.
+ *
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @returns The default account label.
+ */
+export function getDefaultAccountLabel(addressIndex: number, keyType: KeyType) {
+  return keyType === 'ed25519'
+    ? `Ed25519 account ${addressIndex}`
+    : `Account ${addressIndex}`;
+}
+
+/**
+ * Describe the derived key of an account.
+ *
+ * @param addressKey - The derived key node, from {@link getAccountKey}.
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @returns The descriptor of the account.
+ * @throws A `CasperError` if the derived key is not a valid Casper key. The
+ * key itself is not disclosed.
+ */
+export async function describeAccountKey(
+  addressKey: AccountKey,
+  addressIndex: number,
+  keyType: KeyType,
+): Promise<AccountDescriptor> {
+  // Casper public keys are prefixed with the tag of their algorithm, `01` for
+  // Ed25519 and `02` for Secp256k1. Key tree prefixes Ed25519 keys with `00`.
+  const publicKeyHex =
+    addressKey.curve === 'ed25519'
+      ? `01${addressKey.publicKey.slice(4)}`
+      : `02${addressKey.compressedPublicKey.slice(2)}`;
+  let publicKey: PublicKey;
+  try {
+    publicKey = PublicKey.fromBytes(Buffer.from(publicKeyHex, 'hex')).result;
+  } catch {
+    throw new CasperError(
+      CasperErrorCode.UnsupportedCurve,
+      `Unsupported curve: ${addressKey.curve}. Only Secp256K1 && Ed25519 are supported.`,
+      { curve: addressKey.curve, addressIndex },
+    );
+  }
+  const descriptor: AccountDescriptor = {
+    addressIndex,
+    publicKey: publicKey.toHex(true),
+    accountHash: publicKey.accountHash().toPrefixedString(),
+    algorithm: keyType,
+    derivationPath: getDerivationPath(addressIndex, keyType),
+  };
+
+  const { accounts } = await getState();
+  const registered = accounts.find(
+    (account) =>
+      account.addressIndex === addressIndex && account.keyType === keyType,
+  );
+  if (registered) {
+    descriptor.label = registered.label;
+  }
+  return descriptor;
+}
+
+/**
+ * Get casper address.
+ *
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @returns The descriptor of the account.
+ * @throws A `CasperError` if the derived key is not a valid Casper key.
+ */
+export async function getCSPRAddress(
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+): Promise<AccountDescriptor> {
+  return describeAccountKey(
+    await getAccountKey(addressIndex, keyType),
+    addressIndex,
+    keyType,
+  );
+}
+
+/**
+ * Get a contiguous range of accounts.
+ *
+ * @param startIndex - Address index of the first account.
+ * @param count - Number of accounts.
+ * @param keyType - Key type of the accounts.
+ * @returns The descriptors of the accounts.
+ */
+export async function getCSPRAddresses(
+  startIndex: number,
+  count: number,
+  keyType: KeyType = 'secp256k1',
+) {
+  const accounts: AccountDescriptor[] = [];
+  for (let index = startIndex; index < startIndex + count; index++) {
+    accounts.push(await getCSPRAddress(index, keyType));
+  }
+  return accounts;
+}
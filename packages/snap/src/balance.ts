@@ -0,0 +1,86 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import type { Transaction } from 'casper-js-sdk';
+
+import { getErrorMessage } from './errors';
+import { getAccountBalance, getNodeStatus } from './node';
+import type { NetworkProfile, Settings } from './state';
+import { isNativeTransaction, parsePayment } from './utils';
+
+/**
+ * The balance of the account paying for a transaction, as shown in the deploy
+ * confirmation.
+ */
+export type BalanceEstimate =
+  | {
+      status: 'available';
+      // Balances in motes.
+      balance: string;
+      // The balance once the transferred amount and the maximum cost are
+      // spent. Negative when the account cannot afford the transaction.
+      remaining: string;
+      insufficient: boolean;
+    }
+  | { status: 'unavailable'; reason: string };
+
+/**
+ * Get the amount a transaction moves out of the paying account: the `amount`
+ * of native transfers and entry points, plus the maximum cost of the
+ * transaction. The `amount` of contract calls is left out, as it is usually a
+ * token amount.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @returns The spent amount in motes.
+ */
+export function getSpentAmount(transaction: Transaction) {
+  const amount = isNativeTransaction(transaction)
+    ? transaction.args.args.get('amount')
+    : undefined;
+  const { maxCost } = parsePayment(transaction);
+  return BigNumber.from(amount?.toString() ?? 0).add(maxCost ?? 0);
+}
+
+/**
+ * Get the balance of the account paying for a transaction from the node of the
+ * network, and estimate what is left once the transaction is executed. The
+ * node is only queried when the user allowed it in the settings.
+ *
+ * @param network - The network profile of the origin.
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @param settings - The settings of the user.
+ * @returns The balance estimate, or `null` if the node is not queried.
+ */
+export async function estimateBalance(
+  network: NetworkProfile,
+  transaction: Transaction,
+  settings: Settings,
+): Promise<BalanceEstimate | null> {
+  const { nodeUrl } = network;
+  if (!settings.nodeQueries || !nodeUrl) {
+    return null;
+  }
+
+  const { publicKey, accountHash } = transaction.initiatorAddr;
+  const accountIdentifier =
+    publicKey?.toHex() ?? `account-hash-${accountHash?.toHex() ?? ''}`;
+  try {
+    const status = await getNodeStatus(nodeUrl);
+    if (status.chainspec_name !== transaction.chainName) {
+      return {
+        status: 'unavailable',
+        reason: `The node is on the ${status.chainspec_name} network.`,
+      };
+    }
+    const balance = BigNumber.from(
+      await getAccountBalance(nodeUrl, accountIdentifier),
+    );
+    const remaining = balance.sub(getSpentAmount(transaction));
+    return {
+      status: 'available',
+      balance: balance.toString(),
+      remaining: remaining.toString(),
+      insufficient: remaining.isNegative(),
+    };
+  } catch (error) {
+    return { status: 'unavailable', reason: getErrorMessage(error) };
+  }
+}
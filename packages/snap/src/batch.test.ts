@@ -0,0 +1,153 @@
+import { expect } from '@jest/globals';
+import type { Json } from '@metamask/snaps-sdk';
+import {
+  Args,
+  CLValue,
+  Deploy,
+  DeployHeader,
+  ExecutableDeployItem,
+  ModuleBytes,
+  PublicKey,
+  Transaction,
+  TransferDeployItem,
+} from 'casper-js-sdk';
+
+import type { BatchItem } from './batch';
+import { createBatchItem, summarizeBatch } from './batch';
+
+const RECIPIENT_A =
+  '010068920746ecf5870e18911ee1fc5db975e0e97fffcbbf52f5045ad6c9838d2f';
+
+const RECIPIENT_B =
+  '02025e3cc431e77e52e39e590af36a5dcb7e6ef1e22af86bfd8f022eeea8fccb6740';
+
+/**
+ * Create a batch item.
+ *
+ * @param index - Position of the deploy in the request.
+ * @param recipient - The recipient of the deploy.
+ * @param amount - The amount in motes.
+ * @param chainName - The chain name.
+ * @returns The batch item.
+ */
+function createItem(
+  index: number,
+  recipient: string | null,
+  amount: string | null,
+  chainName = 'casper-test',
+): BatchItem {
+  return {
+    index,
+    deployJson: {},
+    deployHash: index.toString(16).padStart(64, '0'),
+    chainName,
+    deployType: recipient ? 'Transfer' : 'Contract Call',
+    amount,
+    recipient,
+    risk: { warnings: [] },
+  };
+}
+
+/**
+ * Create a batch item from a legacy deploy.
+ *
+ * @param index - Position of the deploy in the request.
+ * @param session - The session item.
+ * @returns The batch item.
+ */
+function createDeployItem(index: number, session: ExecutableDeployItem) {
+  const deployHeader = DeployHeader.default();
+  deployHeader.account = PublicKey.fromHex(RECIPIENT_B);
+  deployHeader.chainName = 'casper-test';
+  const deployJson = Deploy.toJson(
+    Deploy.makeDeploy(
+      deployHeader,
+      ExecutableDeployItem.standardPayment('100000000'),
+      session,
+    ),
+  ) as Json;
+  return createBatchItem(
+    index,
+    deployJson,
+    Transaction.fromJson(deployJson),
+    RECIPIENT_B,
+    { warnings: [] },
+  );
+}
+
+/**
+ * Create a contract call session, as WASM session code.
+ *
+ * @param args - The runtime arguments.
+ * @returns The session item.
+ */
+function createContractCall(args: Record<string, CLValue>) {
+  const session = new ExecutableDeployItem();
+  session.moduleBytes = new ModuleBytes(
+    new Uint8Array([0, 97, 115, 109]),
+    Args.fromMap(args),
+  );
+  return session;
+}
+
+describe('summarizeBatch', () => {
+  it('adds up the amounts per recipient and per chain', () => {
+    expect(
+      summarizeBatch([
+        createItem(0, RECIPIENT_A, '2500000000'),
+        createItem(1, RECIPIENT_B, '1000000000'),
+        createItem(2, RECIPIENT_A, '500000000', 'casper'),
+      ]),
+    ).toStrictEqual({
+      recipients: [
+        { key: RECIPIENT_A, count: 2, amount: '3000000000' },
+        { key: RECIPIENT_B, count: 1, amount: '1000000000' },
+      ],
+      chains: [
+        { key: 'casper-test', count: 2, amount: '3500000000' },
+        { key: 'casper', count: 1, amount: '500000000' },
+      ],
+    });
+  });
+
+  it('only counts deploys without recipient or amount per chain', () => {
+    expect(summarizeBatch([createItem(0, null, null)])).toStrictEqual({
+      recipients: [],
+      chains: [{ key: 'casper-test', count: 1, amount: '0' }],
+    });
+  });
+
+  it('only adds up the CSPR amounts of native deploys', () => {
+    const transfer = new ExecutableDeployItem();
+    transfer.transfer = TransferDeployItem.newTransfer(
+      '2500000000',
+      PublicKey.fromHex(RECIPIENT_A),
+      undefined,
+      35,
+    );
+    const items = [
+      createDeployItem(0, transfer),
+      createDeployItem(
+        1,
+        createContractCall({
+          target: CLValue.newCLPublicKey(PublicKey.fromHex(RECIPIENT_A)),
+          amount: CLValue.newCLUInt512('1000000000000'),
+        }),
+      ),
+      createDeployItem(
+        2,
+        createContractCall({ amount: CLValue.newCLString('all of it') }),
+      ),
+    ];
+
+    expect(items.map((item) => item.amount)).toStrictEqual([
+      '2500000000',
+      null,
+      null,
+    ]);
+    expect(summarizeBatch(items)).toStrictEqual({
+      recipients: [{ key: expect.any(String), count: 2, amount: '2500000000' }],
+      chains: [{ key: 'casper-test', count: 3, amount: '2500000000' }],
+    });
+  });
+});
@@ -0,0 +1,432 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import type {
+  InterfaceContext,
+  Json,
+  UserInputEvent,
+} from '@metamask/snaps-sdk';
+import { SnapError, UserInputEventType } from '@metamask/snaps-sdk';
+import {
+  Box,
+  Button,
+  Container,
+  Divider,
+  Footer,
+  Heading,
+  Row,
+  Section,
+  Text,
+} from '@metamask/snaps-sdk/jsx';
+import { Transaction } from 'casper-js-sdk';
+
+import { parseCLValue } from './clvalue';
+import { Approvals } from './components/Approvals';
+import { Payment } from './components/Payment';
+import { RiskBanner } from './components/RiskBanner';
+import { CasperErrorCode, getErrorMessage } from './errors';
+import { getTransactionHistoryDetails } from './history';
+import { getRemainingTtl } from './integrity';
+import type { RiskAnalysis, RiskWarning } from './risk';
+import { SEVERITY_ORDER } from './risk';
+import type { HistoryEntry } from './state';
+import {
+  convertMotesToCasper,
+  formatDuration,
+  transactionToObject,
+} from './utils';
+
+/**
+ * A deploy of a batch that passed validation, as shown in the batch
+ * confirmation.
+ */
+export type BatchItem = Pick<
+  HistoryEntry,
+  'deployHash' | 'chainName' | 'deployType' | 'amount'
+> & {
+  // Position of the deploy in the request.
+  index: number;
+  deployJson: Json;
+  // The `target` argument of the deploy, if it has one.
+  recipient: string | null;
+  risk: RiskAnalysis;
+};
+
+/**
+ * The total amount moved by the deploys of a batch sharing a recipient or a
+ * chain.
+ */
+export type BatchTotal = {
+  key: string;
+  count: number;
+  // Amount in motes moved by native deploys. The amount of contract calls is
+  // left out, as it is usually a token amount.
+  amount: string;
+};
+
+/**
+ * The outcome of a deploy of a batch: the signed deploy, or the reason it was
+ * left out of the batch.
+ */
+export type BatchResult =
+  | { deploy: Json }
+  | {
+      error: { code: number; message: string; data?: Record<string, Json> };
+    };
+
+/**
+ * The context of the batch confirmation interface.
+ */
+export type BatchConfirmationContext = {
+  items: BatchItem[];
+  signingKey: string;
+  // Label of the signing account in the registry.
+  accountLabel: string | null;
+  origin: string;
+  // Name of the active network of the origin.
+  network: string;
+  // Position in `items` of the deploy shown in detail, `null` for the summary.
+  selected: number | null;
+};
+
+const EVENT_PREFIX = 'batch-';
+
+const ITEM_BUTTON_PREFIX = 'batch-item:';
+
+const SUMMARY_BUTTON = 'batch-summary';
+
+const APPROVE_BUTTON = 'batch-approve';
+
+const REJECT_BUTTON = 'batch-reject';
+
+/**
+ * Report a deploy of a batch that failed validation.
+ *
+ * @param error - The thrown value.
+ * @returns The result of the deploy.
+ */
+export function toBatchError(error: unknown): BatchResult {
+  if (error instanceof SnapError) {
+    const { code, message, data } = error;
+    return { error: data ? { code, message, data } : { code, message } };
+  }
+  return {
+    error: {
+      code: CasperErrorCode.InvalidTransaction,
+      message: getErrorMessage(error),
+    },
+  };
+}
+
+/**
+ * Describe a deploy of a batch for the batch confirmation.
+ *
+ * @param index - Position of the deploy in the request.
+ * @param deployJson - JSON formatted deploy.
+ * @param transaction - The parsed deploy.
+ * @param signingKey - Public key of the account asked to sign.
+ * @param risk - The risk analysis of the deploy.
+ * @returns The batch item.
+ */
+export function createBatchItem(
+  index: number,
+  deployJson: Json,
+  transaction: Transaction,
+  signingKey: string,
+  risk: RiskAnalysis,
+): BatchItem {
+  const target = transaction.args.args.get('target');
+  return {
+    index,
+    deployJson,
+    ...getTransactionHistoryDetails(transaction, signingKey),
+    recipient: target ? parseCLValue(target).value ?? null : null,
+    risk,
+  };
+}
+
+/**
+ * Add up the amounts of a batch by key, keeping the order in which keys first
+ * appear.
+ *
+ * @param items - The batch items.
+ * @param getKey - Get the key of an item, `null` to leave it out.
+ * @returns The totals.
+ */
+function sumBy(
+  items: BatchItem[],
+  getKey: (item: BatchItem) => string | null,
+): BatchTotal[] {
+  const totals = new Map<string, { count: number; amount: BigNumber }>();
+  for (const item of items) {
+    const key = getKey(item);
+    if (key === null) {
+      continue;
+    }
+    const total = totals.get(key) ?? { count: 0, amount: BigNumber.from(0) };
+    totals.set(key, {
+      count: total.count + 1,
+      amount: total.amount.add(item.amount ?? 0),
+    });
+  }
+  return [...totals].map(([key, { count, amount }]) => ({
+    key,
+    count,
+    amount: amount.toString(),
+  }));
+}
+
+/**
+ * Compute the totals of a batch per recipient and per chain. Deploys without
+ * recipient are only counted in the chain totals.
+ *
+ * @param items - The batch items.
+ * @returns The totals per recipient and per chain name.
+ */
+export function summarizeBatch(items: BatchItem[]) {
+  return {
+    recipients: sumBy(items, (item) => item.recipient),
+    chains: sumBy(items, (item) => item.chainName),
+  };
+}
+
+/**
+ * Merge the risk warnings of the deploys of a batch, one per risk, most severe
+ * first.
+ *
+ * @param items - The batch items.
+ * @returns The warnings.
+ */
+function mergeWarnings(items: BatchItem[]) {
+  const warnings = new Map<RiskWarning['code'], RiskWarning>();
+  for (const item of items) {
+    for (const warning of item.risk.warnings) {
+      if (!warnings.has(warning.code)) {
+        warnings.set(warning.code, warning);
+      }
+    }
+  }
+  return [...warnings.values()].sort(
+    (first, second) =>
+      SEVERITY_ORDER.indexOf(first.severity) -
+      SEVERITY_ORDER.indexOf(second.severity),
+  );
+}
+
+/**
+ * Render a list of totals.
+ *
+ * @param title - Title of the list.
+ * @param totals - The totals.
+ * @returns The list content.
+ */
+function renderTotals(title: string, totals: BatchTotal[]) {
+  return (
+    <Section>
+      <Text>{title}</Text>
+      {totals.map(({ key, count, amount }) => (
+        <Box>
+          <Text>{key}</Text>
+          <Row label={`${count} deploy${count === 1 ? '' : 's'}`}>
+            <Text>{convertMotesToCasper(amount)} CSPR</Text>
+          </Row>
+        </Box>
+      ))}
+    </Section>
+  );
+}
+
+/**
+ * Render the summary of a batch.
+ *
+ * @param context - The interface context.
+ * @returns The summary content.
+ */
+function renderSummary(context: BatchConfirmationContext) {
+  const { items, signingKey, accountLabel, origin, network } = context;
+  const { recipients, chains } = summarizeBatch(items);
+  const warnings = mergeWarnings(items);
+  return (
+    <Box>
+      {warnings.length > 0 ? <RiskBanner warnings={warnings} /> : null}
+      <Row label="Request origin">
+        <Text>{origin}</Text>
+      </Row>
+      {accountLabel ? (
+        <Row label="Signing Account">
+          <Text>{accountLabel}</Text>
+        </Row>
+      ) : null}
+      <Row label="Signing Key">
+        <Text>{signingKey}</Text>
+      </Row>
+      <Row label="Network">
+        <Text>{network}</Text>
+      </Row>
+      {recipients.length > 0
+        ? renderTotals('Totals per recipient', recipients)
+        : null}
+      {renderTotals('Totals per chain', chains)}
+      <Divider />
+      {items.map((item, position) => (
+        <Button name={`${ITEM_BUTTON_PREFIX}${position}`}>
+          {`#${item.index + 1} ${item.deployType ?? 'Deploy'}${
+            item.amount ? ` ${convertMotesToCasper(item.amount)} CSPR` : ''
+          }${item.risk.warnings.length > 0 ? ' (warnings)' : ''}`}
+        </Button>
+      ))}
+    </Box>
+  );
+}
+
+/**
+ * Render the details of a deploy of a batch.
+ *
+ * @param item - The batch item.
+ * @param signingKey - Public key of the account asked to sign.
+ * @returns The details content.
+ */
+function renderItem(item: BatchItem, signingKey: string) {
+  const transaction = Transaction.fromJson(item.deployJson);
+  const { payment } = transactionToObject(transaction, signingKey);
+  return (
+    <Box>
+      <Button name={SUMMARY_BUTTON}>Back to summary</Button>
+      {item.risk.warnings.length > 0 ? (
+        <RiskBanner warnings={item.risk.warnings} />
+      ) : null}
+      <Row label="Deploy Hash">
+        <Text>{item.deployHash ?? ''}</Text>
+      </Row>
+      <Row label="Chain Name">
+        <Text>{item.chainName ?? ''}</Text>
+      </Row>
+      {item.recipient ? (
+        <Row label="Recipient">
+          <Text>{item.recipient}</Text>
+        </Row>
+      ) : null}
+      {item.amount ? (
+        <Row label="Amount">
+          <Text>{convertMotesToCasper(item.amount)} CSPR</Text>
+        </Row>
+      ) : null}
+      <Row label="Expires In">
+        <Text>{formatDuration(getRemainingTtl(transaction))}</Text>
+      </Row>
+      {transaction.approvals.length > 0 ? (
+        <Approvals
+          signers={transaction.approvals.map((approval) =>
+            approval.signer.toHex(),
+          )}
+        />
+      ) : null}
+      <Payment payment={payment} />
+    </Box>
+  );
+}
+
+/**
+ * Render the batch confirmation.
+ *
+ * @param context - The interface context.
+ * @returns The interface content.
+ */
+function renderBatchConfirmation(context: BatchConfirmationContext) {
+  const item =
+    context.selected === null ? undefined : context.items[context.selected];
+  return (
+    <Container>
+      <Box>
+        <Heading>
+          {item
+            ? `Deploy #${item.index + 1}: ${item.deployType ?? 'Deploy'}`
+            : `Sign ${context.items.length} deploys`}
+        </Heading>
+        {item ? renderItem(item, context.signingKey) : renderSummary(context)}
+      </Box>
+      <Footer>
+        <Button name={REJECT_BUTTON}>Reject all</Button>
+        <Button name={APPROVE_BUTTON}>Approve all</Button>
+      </Footer>
+    </Container>
+  );
+}
+
+/**
+ * Display the batch confirmation and wait for the user to approve or reject
+ * every deploy of the batch at once.
+ *
+ * @param request - The batch to confirm, with the deploys that passed
+ * validation, the hex encoded signing key, the label of the signing account,
+ * the origin of the request and the name of its active network.
+ * @returns `true` if the user approved the batch, `false` if they rejected it
+ * or closed the dialog.
+ */
+export async function confirmBatch(
+  request: Omit<BatchConfirmationContext, 'selected'>,
+) {
+  const context: BatchConfirmationContext = { ...request, selected: null };
+  const id = await snap.request({
+    method: 'snap_createInterface',
+    params: { ui: renderBatchConfirmation(context), context },
+  });
+  const result = await snap.request({
+    method: 'snap_dialog',
+    params: { id },
+  });
+  return result === true;
+}
+
+/**
+ * Check if a user input event comes from the batch confirmation.
+ *
+ * @param event - The user input event.
+ * @returns `true` if the event belongs to the batch confirmation.
+ */
+export function isBatchConfirmationEvent(event: UserInputEvent) {
+  return event.name?.startsWith(EVENT_PREFIX) ?? false;
+}
+
+/**
+ * Handle the interactions of the user with the batch confirmation.
+ *
+ * @param id - The interface ID.
+ * @param event - The user input event.
+ * @param context - The interface context.
+ */
+export async function handleBatchConfirmationInput(
+  id: string,
+  event: UserInputEvent,
+  context: InterfaceContext | null,
+) {
+  if (event.type !== UserInputEventType.ButtonClickEvent || !context) {
+    return;
+  }
+
+  if (event.name === APPROVE_BUTTON || event.name === REJECT_BUTTON) {
+    await snap.request({
+      method: 'snap_resolveInterface',
+      params: { id, value: event.name === APPROVE_BUTTON },
+    });
+    return;
+  }
+
+  const batchContext = context as BatchConfirmationContext;
+  let selected: number | null;
+  if (event.name === SUMMARY_BUTTON) {
+    selected = null;
+  } else if (event.name?.startsWith(ITEM_BUTTON_PREFIX)) {
+    selected = Number(event.name.slice(ITEM_BUTTON_PREFIX.length));
+  } else {
+    return;
+  }
+
+  const newContext = { ...batchContext, selected };
+  await snap.request({
+    method: 'snap_updateInterface',
+    params: {
+      id,
+      ui: renderBatchConfirmation(newContext),
+      context: newContext,
+    },
+  });
+}
@@ -0,0 +1,202 @@
+import { expect } from '@jest/globals';
+import {
+  CLTypeBool,
+  CLTypeList,
+  CLTypeString,
+  CLTypeUInt8,
+  CLTypeUInt64,
+  CLValue,
+  CLValueMap,
+  Key,
+  PublicKey,
+  URef,
+} from 'casper-js-sdk';
+
+import { parseCLValue } from './clvalue';
+
+const PUBLIC_KEY =
+  '0202f5a92ab6da536e7b1a351406f3744224bec85d7acbab1497b65de48a1a707b64';
+
+const ACCOUNT_HASH = `account-hash-${'ab'.repeat(32)}`;
+
+const UREF = `uref-${'cd'.repeat(32)}`;
+
+describe('parseCLValue', () => {
+  it.each([
+    [CLValue.newCLValueBool(true), 'Bool', 'true'],
+    [CLValue.newCLInt32(-2), 'I32', '-2'],
+    [CLValue.newCLInt64('-9000000000'), 'I64', '-9000000000'],
+    [CLValue.newCLUint8(255), 'U8', '255'],
+    [CLValue.newCLUInt32(4000000000), 'U32', '4000000000'],
+    [
+      CLValue.newCLUint64('18446744073709551615'),
+      'U64',
+      '18446744073709551615',
+    ],
+    [
+      CLValue.newCLUInt128('340282366920938463463374607431768211455'),
+      'U128',
+      '340282366920938463463374607431768211455',
+    ],
+    [CLValue.newCLUInt256('1'), 'U256', '1'],
+    [CLValue.newCLUInt512('2500000000'), 'U512', '2500000000'],
+    [CLValue.newCLString('Hello Casper'), 'String', 'Hello Casper'],
+    [CLValue.newCLUnit(), 'Unit', '()'],
+    [
+      CLValue.newCLByteArray(new Uint8Array([1, 2, 255])),
+      'ByteArray[3]',
+      '0102ff',
+    ],
+    [
+      CLValue.newCLPublicKey(PublicKey.fromHex(PUBLIC_KEY)),
+      'PublicKey',
+      PUBLIC_KEY,
+    ],
+    [CLValue.newCLAny(new Uint8Array([1, 2, 255])), 'Any', '0102ff'],
+  ])('decodes a scalar %#', (clValue, type, value) => {
+    expect(parseCLValue(clValue)).toStrictEqual({ type, value });
+  });
+
+  it('decodes a key with its variant', () => {
+    expect(
+      parseCLValue(CLValue.newCLKey(Key.newKey(ACCOUNT_HASH))),
+    ).toStrictEqual({ type: 'Key::Account', value: ACCOUNT_HASH });
+  });
+
+  it('decodes an URef with its access rights', () => {
+    expect(
+      parseCLValue(CLValue.newCLUref(URef.fromString(`${UREF}-007`))),
+    ).toStrictEqual({
+      type: 'URef',
+      value: `${UREF}-007 (Read/Add/Write)`,
+    });
+    expect(
+      parseCLValue(CLValue.newCLUref(URef.fromString(`${UREF}-001`))),
+    ).toStrictEqual({
+      type: 'URef',
+      value: `${UREF}-001 (Read)`,
+    });
+  });
+
+  it('decodes options', () => {
+    expect(
+      parseCLValue(CLValue.newCLOption(CLValue.newCLUint64(3))),
+    ).toStrictEqual({ type: 'Option<U64>', value: '3' });
+    expect(parseCLValue(CLValue.newCLOption(null, CLTypeUInt64))).toStrictEqual(
+      { type: 'Option<U64>', value: 'None' },
+    );
+  });
+
+  it('decodes results', () => {
+    expect(
+      parseCLValue(
+        CLValue.newCLResult(
+          CLTypeUInt8,
+          CLTypeString,
+          CLValue.newCLUint8(1),
+          true,
+        ),
+      ),
+    ).toStrictEqual({
+      type: 'Result<U8, String>',
+      children: [{ label: 'Ok', node: { type: 'U8', value: '1' } }],
+    });
+    expect(
+      parseCLValue(
+        CLValue.newCLResult(
+          CLTypeUInt8,
+          CLTypeString,
+          CLValue.newCLString('failure'),
+          false,
+        ),
+      ),
+    ).toStrictEqual({
+      type: 'Result<U8, String>',
+      children: [{ label: 'Err', node: { type: 'String', value: 'failure' } }],
+    });
+  });
+
+  it('decodes nested lists', () => {
+    const clValue = CLValue.newCLList(new CLTypeList(CLTypeUInt8), [
+      CLValue.newCLList(CLTypeUInt8, [
+        CLValue.newCLUint8(1),
+        CLValue.newCLUint8(2),
+      ]),
+      CLValue.newCLList(CLTypeUInt8, []),
+    ]);
+
+    expect(parseCLValue(clValue)).toStrictEqual({
+      type: 'List<List<U8>>',
+      children: [
+        {
+          label: '[0]',
+          node: {
+            type: 'List<U8>',
+            children: [
+              { label: '[0]', node: { type: 'U8', value: '1' } },
+              { label: '[1]', node: { type: 'U8', value: '2' } },
+            ],
+          },
+        },
+        { label: '[1]', node: { type: 'List<U8>', children: [] } },
+      ],
+    });
+  });
+
+  it('decodes maps, labelling entries by key', () => {
+    const clValue = CLValueMap.newCLMap(CLTypeString, CLTypeBool);
+    clValue.map?.append(
+      CLValue.newCLString('first'),
+      CLValue.newCLValueBool(true),
+    );
+    clValue.map?.append(
+      CLValue.newCLString('second'),
+      CLValue.newCLValueBool(false),
+    );
+
+    expect(parseCLValue(clValue)).toStrictEqual({
+      type: 'Map<String, Bool>',
+      children: [
+        { label: 'first', node: { type: 'Bool', value: 'true' } },
+        { label: 'second', node: { type: 'Bool', value: 'false' } },
+      ],
+    });
+  });
+
+  it('decodes tuples', () => {
+    expect(
+      parseCLValue(
+        CLValue.newCLTuple3(
+          CLValue.newCLString('name'),
+          CLValue.newCLTuple1(CLValue.newCLUint8(1)),
+          CLValue.newCLTuple2(
+            CLValue.newCLValueBool(true),
+            CLValue.newCLUnit(),
+          ),
+        ),
+      ),
+    ).toStrictEqual({
+      type: 'Tuple3<String, Tuple1<U8>, Tuple2<Bool, Unit>>',
+      children: [
+        { label: '0', node: { type: 'String', value: 'name' } },
+        {
+          label: '1',
+          node: {
+            type: 'Tuple1<U8>',
+            children: [{ label: '0', node: { type: 'U8', value: '1' } }],
+          },
+        },
+        {
+          label: '2',
+          node: {
+            type: 'Tuple2<Bool, Unit>',
+            children: [
+              { label: '0', node: { type: 'Bool', value: 'true' } },
+              { label: '1', node: { type: 'Unit', value: '()' } },
+            ],
+          },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,255 @@
+/* eslint-disable no-case-declarations */
+import type {
+  CLType,
+  CLTypeByteArray,
+  CLTypeList,
+  CLTypeMap,
+  CLTypeOption,
+  CLTypeResult,
+  CLTypeTuple1,
+  CLTypeTuple2,
+  CLTypeTuple3,
+  CLValue,
+} from 'casper-js-sdk';
+import {
+  AccountHash,
+  Conversions,
+  KeyTypeID,
+  TypeID,
+  UrefAccess,
+} from 'casper-js-sdk';
+
+/**
+ * A CLValue decoded into a typed tree, formatted for display. Scalars only
+ * have a `value`, collections only have `children`.
+ */
+export type CLValueNode = {
+  type: string;
+  value?: string;
+  children?: CLValueField[];
+};
+
+/**
+ * A labelled member of a collection: a list item, a tuple member, a map
+ * entry or the variant of a result.
+ */
+export type CLValueField = {
+  label: string;
+  node: CLValueNode;
+};
+
+const UREF_ACCESS_LABELS: Record<UrefAccess, string> = {
+  [UrefAccess.None]: 'None',
+  [UrefAccess.Read]: 'Read',
+  [UrefAccess.Write]: 'Write',
+  [UrefAccess.Add]: 'Add',
+  [UrefAccess.ReadWrite]: 'Read/Write',
+  [UrefAccess.ReadAdd]: 'Read/Add',
+  [UrefAccess.AddWrite]: 'Add/Write',
+  [UrefAccess.ReadAddWrite]: 'Read/Add/Write',
+};
+
+/**
+ * Format a CLType with its inner types, e.g. `Map<String, List<U8>>`.
+ *
+ * @param type - A CLType.
+ * @returns The type name.
+ */
+export function formatCLType(type: CLType): string {
+  switch (type.getTypeID()) {
+    case TypeID.Option:
+      return `Option<${formatCLType((type as CLTypeOption).inner)}>`;
+
+    case TypeID.List:
+      return `List<${formatCLType((type as CLTypeList).elementsType)}>`;
+
+    case TypeID.ByteArray:
+      return `ByteArray[${(type as CLTypeByteArray).size}]`;
+
+    case TypeID.Result:
+      const resultType = type as CLTypeResult;
+      return `Result<${formatCLType(resultType.innerOk)}, ${formatCLType(
+        resultType.innerErr,
+      )}>`;
+
+    case TypeID.Map:
+      const mapType = type as CLTypeMap;
+      return `Map<${formatCLType(mapType.key)}, ${formatCLType(mapType.val)}>`;
+
+    case TypeID.Tuple1:
+      return `Tuple1<${formatCLType((type as CLTypeTuple1).inner)}>`;
+
+    case TypeID.Tuple2:
+      const tuple2Type = type as CLTypeTuple2;
+      return `Tuple2<${[tuple2Type.inner1, tuple2Type.inner2]
+        .map(formatCLType)
+        .join(', ')}>`;
+
+    case TypeID.Tuple3:
+      const tuple3Type = type as CLTypeTuple3;
+      return `Tuple3<${[tuple3Type.inner1, tuple3Type.inner2, tuple3Type.inner3]
+        .map(formatCLType)
+        .join(', ')}>`;
+
+    default:
+      return type.toString();
+  }
+}
+
+/**
+ * Decode the members of a collection, labelling them by position.
+ *
+ * @param members - The collection members.
+ * @param label - Formats the label of a member from its index.
+ * @returns The decoded members.
+ */
+function parseMembers(
+  members: CLValue[],
+  label: (index: number) => string = (index) => `[${index}]`,
+): CLValueField[] {
+  return members.map((member, index) => ({
+    label: label(index),
+    node: parseCLValue(member),
+  }));
+}
+
+/**
+ * Decode a CLValue into a typed tree. Every CLType is decoded recursively, so
+ * nested collections are displayed in full rather than summarised.
+ *
+ * @param clValue - A CLValue, e.g. a runtime argument of a deploy.
+ * @returns The decoded value.
+ */
+export function parseCLValue(clValue: CLValue): CLValueNode {
+  // Special handling as there is no TypeID for CLAccountHash
+  if ((clValue as unknown) instanceof AccountHash) {
+    return {
+      type: 'AccountHash',
+      value: (clValue as unknown as AccountHash).toPrefixedString(),
+    };
+  }
+
+  const type = formatCLType(clValue.type);
+  switch (clValue.type.getTypeID()) {
+    case TypeID.Bool:
+      return { type, value: String(clValue.bool?.getValue()) };
+
+    case TypeID.I32:
+    case TypeID.I64:
+    case TypeID.U8:
+    case TypeID.U32:
+    case TypeID.U64:
+    case TypeID.U128:
+    case TypeID.U256:
+    case TypeID.U512:
+      return { type, value: clValue.toString() };
+
+    case TypeID.Unit:
+      return { type, value: '()' };
+
+    case TypeID.String:
+      return { type, value: clValue.stringVal?.toString() ?? '' };
+
+    case TypeID.Key:
+      const { key } = clValue;
+      return {
+        type: key ? `Key::${KeyTypeID[key.type]}` : type,
+        value: key?.toPrefixedString() ?? '',
+      };
+
+    case TypeID.URef:
+      const { uref } = clValue;
+      return {
+        type,
+        value: uref
+          ? `${uref.toPrefixedString()} (${UREF_ACCESS_LABELS[uref.access]})`
+          : '',
+      };
+
+    case TypeID.Option:
+      const inner = clValue.option?.value();
+      if (!inner) {
+        return { type, value: 'None' };
+      }
+      // `Some` is implied by the option type of the decoded inner value.
+      return { ...parseCLValue(inner), type };
+
+    case TypeID.Result:
+      const { result } = clValue;
+      if (!result) {
+        return { type, children: [] };
+      }
+      return {
+        type,
+        children: [
+          {
+            label: result.isSuccess ? 'Ok' : 'Err',
+            node: parseCLValue(result.value()),
+          },
+        ],
+      };
+
+    case TypeID.List:
+      return { type, children: parseMembers(clValue.list?.elements ?? []) };
+
+    case TypeID.Map:
+      const entries = clValue.map?.getData() ?? [];
+      return {
+        type,
+        children: entries.map((entry, index) => {
+          const [entryKey, entryValue] = entry.value();
+          const keyNode = parseCLValue(entryKey);
+          const valueNode = parseCLValue(entryValue);
+          if (keyNode.children) {
+            return {
+              label: `[${index}]`,
+              node: {
+                type: formatCLType(entry.innerType),
+                children: [
+                  { label: 'Key', node: keyNode },
+                  { label: 'Value', node: valueNode },
+                ],
+              },
+            };
+          }
+          return { label: keyNode.value ?? `[${index}]`, node: valueNode };
+        }),
+      };
+
+    case TypeID.Tuple1:
+      return {
+        type,
+        children: parseMembers(
+          clValue.tuple1 ? [clValue.tuple1.value()] : [],
+          String,
+        ),
+      };
+
+    case TypeID.Tuple2:
+      return {
+        type,
+        children: parseMembers(clValue.tuple2?.value() ?? [], String),
+      };
+
+    case TypeID.Tuple3:
+      return {
+        type,
+        children: parseMembers(clValue.tuple3?.value() ?? [], String),
+      };
+
+    case TypeID.ByteArray:
+      return { type, value: clValue.byteArray?.toString() ?? '' };
+
+    case TypeID.PublicKey:
+      return { type, value: clValue.publicKey?.toHex() ?? '' };
+
+    case TypeID.Any:
+      return {
+        type,
+        value: clValue.any ? Conversions.encodeBase16(clValue.any.bytes()) : '',
+      };
+
+    default:
+      return { type, value: clValue.toString() };
+  }
+}
@@ -0,0 +1,22 @@
+import type { SnapComponent } from '@metamask/snaps-sdk/jsx';
+import { Box, Row, Text } from '@metamask/snaps-sdk/jsx';
+
+type ApprovalsProps = {
+  // Hex encoded public keys of the accounts that already approved the deploy.
+  signers: string[];
+};
+
+export const Approvals: SnapComponent<ApprovalsProps> = ({ signers }) => {
+  return (
+    <Box>
+      <Row label="Existing Approvals">
+        <Text>{signers.length.toString()}</Text>
+      </Row>
+      {signers.map((signer, index) => (
+        <Row label={`Signer ${index + 1}`}>
+          <Text>{signer}</Text>
+        </Row>
+      ))}
+    </Box>
+  );
+};
@@ -0,0 +1,40 @@
+import type { SnapComponent } from '@metamask/snaps-sdk/jsx';
+import { Box, Row, Text } from '@metamask/snaps-sdk/jsx';
+
+import type { BalanceEstimate } from '../balance';
+import { convertMotesToCasper } from '../utils';
+
+type BalanceProps = {
+  balance: BalanceEstimate;
+};
+
+export const Balance: SnapComponent<BalanceProps> = ({ balance }) => {
+  if (balance.status === 'unavailable') {
+    return (
+      <Row label="Account Balance">
+        <Text>{`Unavailable: ${balance.reason}`}</Text>
+      </Row>
+    );
+  }
+  return (
+    <Box>
+      <Row label="Account Balance">
+        <Text>{`${convertMotesToCasper(balance.balance)} CSPR`}</Text>
+      </Row>
+      <Row
+        label="Balance After (estimate)"
+        variant={balance.insufficient ? 'critical' : 'default'}
+      >
+        <Text>{`${convertMotesToCasper(balance.remaining)} CSPR`}</Text>
+      </Row>
+      {balance.insufficient ? (
+        <Row label="Warning" variant="critical">
+          <Text>
+            The account cannot afford this transaction. The network will reject
+            it or charge the fee without executing it.
+          </Text>
+        </Row>
+      ) : null}
+    </Box>
+  );
+};
@@ -0,0 +1,114 @@
+import type { SnapComponent } from '@metamask/snaps-sdk/jsx';
+import { Bold, Box, Button, Row, Section, Text } from '@metamask/snaps-sdk/jsx';
+
+import type { CLValueNode } from '../clvalue';
+
+/**
+ * Number of collection members revealed at once.
+ */
+export const COLLECTION_PAGE_SIZE = 10;
+
+const SHOW_MORE_PREFIX = 'clvalue-show-more:';
+
+const EXPAND_PREFIX = 'clvalue-expand:';
+
+const COLLAPSE_PREFIX = 'clvalue-collapse:';
+
+/**
+ * Get the name of the button revealing more members of a collection.
+ *
+ * @param path - Path of the collection in the displayed arguments.
+ * @returns The button name.
+ */
+function getShowMoreButtonName(path: string) {
+  return `${SHOW_MORE_PREFIX}${path}`;
+}
+
+/**
+ * Compute the number of pages revealed for each collection once a collection
+ * button is clicked.
+ *
+ * @param name - The name of the clicked button.
+ * @param pages - Number of pages revealed for each collection, keyed by path.
+ * @returns The updated pages, or `null` if the button is not a collection
+ * button.
+ */
+export function updateCollectionPages(
+  name: string | undefined,
+  pages: Record<string, number>,
+) {
+  if (name?.startsWith(SHOW_MORE_PREFIX)) {
+    const path = name.slice(SHOW_MORE_PREFIX.length);
+    return { ...pages, [path]: (pages[path] ?? 1) + 1 };
+  }
+  if (name?.startsWith(EXPAND_PREFIX)) {
+    return { ...pages, [name.slice(EXPAND_PREFIX.length)]: 1 };
+  }
+  if (name?.startsWith(COLLAPSE_PREFIX)) {
+    return { ...pages, [name.slice(COLLAPSE_PREFIX.length)]: 0 };
+  }
+  return null;
+}
+
+type CLValueTreeProps = {
+  label: string;
+  node: CLValueNode;
+  // Unique path of the node, e.g. `recipients/3/1`.
+  path: string;
+  // Number of pages revealed for each collection, keyed by path. Top-level
+  // collections are expanded by default, nested ones are collapsed.
+  pages: Record<string, number>;
+  nested?: boolean;
+};
+
+export const CLValueTree: SnapComponent<CLValueTreeProps> = ({
+  label,
+  node,
+  path,
+  pages,
+  nested = false,
+}) => {
+  if (!node.children) {
+    return (
+      <Row label={label} tooltip={node.type}>
+        <Text>{node.value ?? ''}</Text>
+      </Row>
+    );
+  }
+
+  const visible = node.children.slice(
+    0,
+    (pages[path] ?? (nested ? 0 : 1)) * COLLECTION_PAGE_SIZE,
+  );
+  const remaining = node.children.length - visible.length;
+  return (
+    <Section>
+      <Box direction="horizontal" alignment="space-between">
+        <Text>
+          <Bold>{label}</Bold> {node.type} ({node.children.length.toString()})
+        </Text>
+        {visible.length > 0 ? (
+          <Button name={`${COLLAPSE_PREFIX}${path}`}>Collapse</Button>
+        ) : null}
+        {visible.length === 0 && remaining > 0 ? (
+          <Button name={`${EXPAND_PREFIX}${path}`}>Expand</Button>
+        ) : null}
+      </Box>
+      {visible.map((child, index) => (
+        <CLValueTree
+          label={child.label}
+          node={child.node}
+          path={`${path}/${index}`}
+          pages={pages}
+          nested={true}
+        />
+      ))}
+      {visible.length > 0 && remaining > 0 ? (
+        <Button name={getShowMoreButtonName(path)}>
+          Show {Math.min(remaining, COLLECTION_PAGE_SIZE).toString()} more of{' '}
+          {remaining.toString()}
+        </Button>
+      ) : null}
+    </Section>
+  );
+};
@@ -0,0 +1,33 @@
+import type { SnapComponent } from '@metamask/snaps-sdk/jsx';
+import { Box, Row, Text } from '@metamask/snaps-sdk/jsx';
+
+import type { PaymentInfo } from '../utils';
+
+type PaymentProps = {
+  payment: PaymentInfo;
+};
+
+export const Payment: SnapComponent<PaymentProps> = ({ payment }) => {
+  return (
+    <Box>
+      <Row label="Payment Type">
+        <Text>{payment.paymentType}</Text>
+      </Row>
+      {Object.entries(payment.fields).map(([label, value]) => (
+        <Row label={label}>
+          <Text>{value}</Text>
+        </Row>
+      ))}
+      {payment.warning ? (
+        <Row label="Warning" variant="warning">
+          <Text>{payment.warning}</Text>
+        </Row>
+      ) : null}
+      {payment.estimatedMaxCost ? (
+        <Row label="Estimated Maximum Cost">
+          <Text>{payment.estimatedMaxCost}</Text>
+        </Row>
+      ) : null}
+    </Box>
+  );
+};
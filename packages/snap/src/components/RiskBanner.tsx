@@ -0,0 +1,47 @@
+import type { SnapComponent } from '@metamask/snaps-sdk/jsx';
+import { Bold, Icon, Row, Section, Text } from '@metamask/snaps-sdk/jsx';
+
+import type { RiskSeverity, RiskWarning } from '../risk';
+
+const SEVERITY_LABELS: Record<RiskSeverity, string> = {
+  critical: 'Critical',
+  warning: 'Warning',
+  info: 'Info',
+};
+
+const SEVERITY_VARIANTS: Record<
+  RiskSeverity,
+  'critical' | 'warning' | 'default'
+> = {
+  critical: 'critical',
+  warning: 'warning',
+  info: 'default',
+};
+
+type RiskBannerProps = {
+  warnings: RiskWarning[];
+};
+
+export const RiskBanner: SnapComponent<RiskBannerProps> = ({ warnings }) => {
+  const critical = warnings.some(({ severity }) => severity === 'critical');
+  return (
+    <Section>
+      <Text color={critical ? 'error' : 'warning'}>
+        <Icon name="danger" />{' '}
+        <Bold>
+          {critical
+            ? 'Review this transaction carefully'
+            : 'This transaction needs your attention'}
+        </Bold>
+      </Text>
+      {warnings.map(({ severity, message }) => (
+        <Row
+          label={SEVERITY_LABELS[severity]}
+          variant={SEVERITY_VARIANTS[severity]}
+        >
+          <Text>{message}</Text>
+        </Row>
+      ))}
+    </Section>
+  );
+};
@@ -0,0 +1,277 @@
+import type {
+  InterfaceContext,
+  Json,
+  UserInputEvent,
+} from '@metamask/snaps-sdk';
+import { UserInputEventType } from '@metamask/snaps-sdk';
+import {
+  Box,
+  Button,
+  Container,
+  Copyable,
+  Divider,
+  Footer,
+  Heading,
+  Row,
+  Text,
+} from '@metamask/snaps-sdk/jsx';
+import { Transaction } from 'casper-js-sdk';
+
+import type { BalanceEstimate } from './balance';
+import { Approvals } from './components/Approvals';
+import { Balance } from './components/Balance';
+import { CLValueTree, updateCollectionPages } from './components/CLValueTree';
+import { Payment } from './components/Payment';
+import { RiskBanner } from './components/RiskBanner';
+import { getRemainingTtl } from './integrity';
+import type { RiskAnalysis } from './risk';
+import { formatDuration, transactionToObject } from './utils';
+
+/**
+ * The pages of the deploy confirmation.
+ */
+export type DeployConfirmationPage = 'summary' | 'arguments' | 'raw';
+
+/**
+ * The context of the deploy confirmation interface, from which it is rendered
+ * again when the user interacts with it.
+ */
+export type DeployConfirmationContext = {
+  deployJson: Json;
+  signingKey: string;
+  // Label of the signing account in the registry.
+  accountLabel: string | null;
+  origin: string;
+  risk: RiskAnalysis;
+  // Name of the active network of the origin.
+  network: string;
+  // Balance of the paying account, `null` when the node is not queried.
+  balance: BalanceEstimate | null;
+  // URL of the node the deploy is submitted to once signed, `null` when it is
+  // only signed.
+  submitTo: string | null;
+  page: DeployConfirmationPage;
+  // Number of pages revealed for each collection argument, keyed by path.
+  pages: Record<string, number>;
+};
+
+const PAGE_BUTTON_PREFIX = 'deploy-page:';
+
+export const APPROVE_BUTTON = 'deploy-approve';
+
+export const REJECT_BUTTON = 'deploy-reject';
+
+const PAGE_TITLES: Record<DeployConfirmationPage, string> = {
+  summary: 'Summary',
+  arguments: 'Arguments',
+  raw: 'Raw JSON',
+};
+
+/**
+ * Render the deploy confirmation.
+ *
+ * @param context - The interface context.
+ * @returns The interface content.
+ */
+function renderDeployConfirmation(context: DeployConfirmationContext) {
+  const {
+    deployJson,
+    signingKey,
+    accountLabel,
+    origin,
+    risk,
+    network,
+    balance,
+    submitTo,
+    page,
+    pages,
+  } = context;
+  const transaction = Transaction.fromJson(deployJson);
+  const deployInfo = transactionToObject(transaction, signingKey);
+  const args = Object.entries(deployInfo.deployArgs);
+  return (
+    <Container>
+      <Box>
+        <Heading>Sign {deployInfo.deployType}</Heading>
+        {risk.warnings.length > 0 ? (
+          <RiskBanner warnings={risk.warnings} />
+        ) : null}
+        <Box direction="horizontal" alignment="space-between">
+          {Object.entries(PAGE_TITLES).map(([name, title]) => (
+            <Button
+              name={`${PAGE_BUTTON_PREFIX}${name}`}
+              disabled={name === page}
+            >
+              {title}
+            </Button>
+          ))}
+        </Box>
+        <Divider />
+        {page === 'summary' ? (
+          <Box>
+            <Row label="Request origin">
+              <Text>{origin}</Text>
+            </Row>
+            <Row label="Deploy Hash">
+              <Text>{deployInfo.deployHash}</Text>
+            </Row>
+            {accountLabel ? (
+              <Row label="Signing Account">
+                <Text>{accountLabel}</Text>
+              </Row>
+            ) : null}
+            <Row label="Signing Key">
+              <Text>{deployInfo.signingKey}</Text>
+            </Row>
+            {transaction.approvals.length > 0 ? (
+              <Approvals
+                signers={transaction.approvals.map((approval) =>
+                  approval.signer.toHex(),
+                )}
+              />
+            ) : null}
+            <Row label="Account">
+              <Text>{deployInfo.account ?? ''}</Text>
+            </Row>
+            <Row label="Body Hash">
+              <Text>{deployInfo.bodyHash ?? ''}</Text>
+            </Row>
+            <Row label="Network">
+              <Text>{network}</Text>
+            </Row>
+            <Row label="Chain Name">
+              <Text>{deployInfo.chainName}</Text>
+            </Row>
+            {submitTo ? (
+              <Row label="Submit To">
+                <Text>{submitTo}</Text>
+              </Row>
+            ) : null}
+            <Row label="Timestamp">
+              <Text>{deployInfo.timestamp}</Text>
+            </Row>
+            <Row label="Expires In">
+              <Text>{formatDuration(getRemainingTtl(transaction))}</Text>
+            </Row>
+            {risk.sessionCode ? (
+              <Box>
+                <Row label="Session Code Size">
+                  <Text>{risk.sessionCode.size.toString()} bytes</Text>
+                </Row>
+                <Row label="Session Code Hash">
+                  <Text>{risk.sessionCode.hash}</Text>
+                </Row>
+              </Box>
+            ) : null}
+            <Payment payment={deployInfo.payment} />
+            {balance ? <Balance balance={balance} /> : null}
+            <Row label="Arguments">
+              <Text>{args.length.toString()}</Text>
+            </Row>
+          </Box>
+        ) : null}
+        {page === 'arguments' ? (
+          <Box>
+            {args.length === 0 ? (
+              <Text>This deploy has no arguments.</Text>
+            ) : null}
+            {args.map(([name, node]) => (
+              <CLValueTree label={name} node={node} path={name} pages={pages} />
+            ))}
+          </Box>
+        ) : null}
+        {page === 'raw' ? (
+          <Copyable value={JSON.stringify(deployJson, null, 2)} />
+        ) : null}
+      </Box>
+      <Footer>
+        <Button name={REJECT_BUTTON}>Reject</Button>
+        <Button name={APPROVE_BUTTON}>
+          {submitTo ? 'Approve and submit' : 'Approve'}
+        </Button>
+      </Footer>
+    </Container>
+  );
+}
+
+/**
+ * Display the deploy confirmation and wait for the user to approve or reject
+ * it.
+ *
+ * @param request - The deploy to confirm, with the JSON formatted deploy, the
+ * hex encoded signing key, the label of the signing account, the origin of the
+ * request, the risk analysis of the deploy, the name of the active network
+ * of the origin, the balance of the paying account and the node the deploy is
+ * submitted to.
+ * @returns `true` if the user approved the deploy, `false` if they rejected
+ * it or closed the dialog.
+ */
+export async function confirmDeploy(
+  request: Omit<DeployConfirmationContext, 'page' | 'pages'>,
+) {
+  const context: DeployConfirmationContext = {
+    ...request,
+    page: 'summary',
+    pages: {},
+  };
+  const id = await snap.request({
+    method: 'snap_createInterface',
+    params: { ui: renderDeployConfirmation(context), context },
+  });
+  const result = await snap.request({
+    method: 'snap_dialog',
+    params: { id },
+  });
+  return result === true;
+}
+
+/**
+ * Handle the interactions of the user with the deploy confirmation.
+ *
+ * @param id - The interface ID.
+ * @param event - The user input event.
+ * @param context - The interface context.
+ */
+export async function handleDeployConfirmationInput(
+  id: string,
+  event: UserInputEvent,
+  context: InterfaceContext,
+) {
+  if (event.type !== UserInputEventType.ButtonClickEvent) {
+    return;
+  }
+
+  if (event.name === APPROVE_BUTTON || event.name === REJECT_BUTTON) {
+    await snap.request({
+      method: 'snap_resolveInterface',
+      params: { id, value: event.name === APPROVE_BUTTON },
+    });
+    return;
+  }
+
+  const deployContext = context as DeployConfirmationContext;
+  let newContext: DeployConfirmationContext;
+  if (event.name?.startsWith(PAGE_BUTTON_PREFIX)) {
+    newContext = {
+      ...deployContext,
+      page: event.name.slice(
+        PAGE_BUTTON_PREFIX.length,
+      ) as DeployConfirmationPage,
+    };
+  } else {
+    const pages = updateCollectionPages(event.name, deployContext.pages);
+    if (!pages) {
+      return;
+    }
+    newContext = { ...deployContext, pages };
+  }
+
+  await snap.request({
+    method: 'snap_updateInterface',
+    params: {
+      id,
+      ui: renderDeployConfirmation(newContext),
+      context: newContext,
+    },
+  });
+}
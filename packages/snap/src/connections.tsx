@@ -0,0 +1,260 @@
+import {
+  UnauthorizedError,
+  UserRejectedRequestError,
+} from '@metamask/snaps-sdk';
+import {
+  Box,
+  Checkbox,
+  Divider,
+  Heading,
+  Row,
+  Text,
+} from '@metamask/snaps-sdk/jsx';
+
+import type { KeyType } from './accounts';
+import { getCSPRAddress, getDefaultAccountLabel } from './accounts';
+import type { Connection } from './state';
+import { getState, updateState } from './state';
+
+/**
+ * Get the name of the checkbox granting access to an account.
+ *
+ * @param addressIndex - Address index.
+ * @returns The checkbox name.
+ */
+function getAccountCheckboxName(addressIndex: number) {
+  return `account-${addressIndex}`;
+}
+
+/**
+ * Get the accounts of a key type granted by a connection.
+ *
+ * @param connection - The connection of an origin.
+ * @param keyType - Key type of the accounts.
+ * @returns The granted address indices.
+ */
+export function getGrantedIndices(
+  connection: Connection | undefined,
+  keyType: KeyType,
+) {
+  if (keyType === 'ed25519') {
+    return connection?.ed25519AddressIndices ?? [];
+  }
+  return connection?.addressIndices ?? [];
+}
+
+/**
+ * Display an interface in a confirmation dialog and read back its state.
+ *
+ * @param id - The interface ID.
+ * @returns The interface state if the user approved, `null` otherwise.
+ */
+async function confirmInterface(id: string) {
+  const approved = await snap.request({
+    method: 'snap_dialog',
+    params: { type: 'confirmation', id },
+  });
+  if (!approved) {
+    return null;
+  }
+  return await snap.request({
+    method: 'snap_getInterfaceState',
+    params: { id },
+  });
+}
+
+/**
+ * Ask the user which of the requested accounts an origin may access, and
+ * persist the approved accounts. A new connection replaces any previous grant
+ * of the same key type.
+ *
+ * @param origin - Origin of the request.
+ * @param addressIndices - Address indices requested by the origin.
+ * @param keyType - Key type of the requested accounts.
+ * @returns The accounts the origin has been granted access to.
+ * @throws If the user rejects the request or approves no account.
+ */
+export async function connect(
+  origin: string,
+  addressIndices: number[],
+  keyType: KeyType = 'secp256k1',
+) {
+  const accounts = [];
+  const labels: Record<number, string> = {};
+  for (const addressIndex of new Set(addressIndices)) {
+    const { publicKey, label } = await getCSPRAddress(addressIndex, keyType);
+    accounts.push({ addressIndex, publicKey });
+    labels[addressIndex] =
+      label ?? getDefaultAccountLabel(addressIndex, keyType);
+  }
+
+  const id = await snap.request({
+    method: 'snap_createInterface',
+    params: {
+      ui: (
+        <Box>
+          <Heading>Connect</Heading>
+          <Row label="Request origin">
+            <Text>{origin}</Text>
+          </Row>
+          <Text>Select the accounts this site will be able to use.</Text>
+          {accounts.map(({ addressIndex, publicKey }) => (
+            <Box>
+              <Divider />
+              <Checkbox
+                name={getAccountCheckboxName(addressIndex)}
+                label={labels[addressIndex] ?? ''}
+                checked={true}
+              />
+              <Text>{publicKey}</Text>
+            </Box>
+          ))}
+        </Box>
+      ),
+    },
+  });
+
+  const interfaceState = await confirmInterface(id);
+  const granted = accounts.filter(
+    ({ addressIndex }) =>
+      interfaceState?.[getAccountCheckboxName(addressIndex)] === true,
+  );
+  if (granted.length === 0) {
+    throw new UserRejectedRequestError({
+      method: 'casper_connect',
+    }) as unknown as Error;
+  }
+
+  const grantedIndices = granted.map(({ addressIndex }) => addressIndex);
+  await updateState((state) => {
+    const previous = state.connections[origin];
+    const connection: Connection = {
+      addressIndices:
+        keyType === 'secp256k1'
+          ? grantedIndices
+          : previous?.addressIndices ?? [],
+      connectedAt: Date.now(),
+    };
+    const ed25519AddressIndices =
+      keyType === 'ed25519' ? grantedIndices : previous?.ed25519AddressIndices;
+    if (ed25519AddressIndices) {
+      connection.ed25519AddressIndices = ed25519AddressIndices;
+    }
+    return {
+      ...state,
+      connections: { ...state.connections, [origin]: connection },
+    };
+  });
+  return { accounts: granted };
+}
+
+/**
+ * Revoke every account access granted to an origin.
+ *
+ * @param origin - Origin of the request.
+ * @returns `true` if the origin was connected, `false` otherwise.
+ */
+export async function disconnect(origin: string) {
+  const { connections } = await getState();
+  if (!connections[origin]) {
+    return false;
+  }
+
+  await updateState((state) => {
+    const { [origin]: _revoked, ...remaining } = state.connections;
+    return { ...state, connections: remaining };
+  });
+  return true;
+}
+
+/**
+ * List the connected origins to the user, and revoke the ones they select.
+ *
+ * @returns The number of origins that have been revoked. The revoked origins
+ * themselves are not disclosed to the caller.
+ */
+export async function manageConnections() {
+  const { connections } = await getState();
+  const origins = Object.keys(connections).sort();
+  if (origins.length === 0) {
+    await snap.request({
+      method: 'snap_dialog',
+      params: {
+        type: 'alert',
+        content: (
+          <Box>
+            <Heading>Connected sites</Heading>
+            <Text>No site is connected to your Casper accounts.</Text>
+          </Box>
+        ),
+      },
+    });
+    return { revoked: 0 };
+  }
+
+  const id = await snap.request({
+    method: 'snap_createInterface',
+    params: {
+      ui: (
+        <Box>
+          <Heading>Connected sites</Heading>
+          <Text>Select the sites to disconnect.</Text>
+          {origins.map((origin, index) => (
+            <Box>
+              <Divider />
+              <Checkbox name={`origin-${index}`} label={origin} />
+              <Text>
+                Accounts:{' '}
+                {getGrantedIndices(connections[origin], 'secp256k1').join(', ')}
+              </Text>
+              {getGrantedIndices(connections[origin], 'ed25519').length > 0 ? (
+                <Text>
+                  Ed25519 accounts:{' '}
+                  {getGrantedIndices(connections[origin], 'ed25519').join(', ')}
+                </Text>
+              ) : null}
+            </Box>
+          ))}
+        </Box>
+      ),
+    },
+  });
+
+  const interfaceState = await confirmInterface(id);
+  const revoked = origins.filter(
+    (_origin, index) => interfaceState?.[`origin-${index}`] === true,
+  );
+  if (revoked.length > 0) {
+    await updateState((state) => ({
+      ...state,
+      connections: Object.fromEntries(
+        Object.entries(state.connections).filter(
+          ([origin]) => !revoked.includes(origin),
+        ),
+      ),
+    }));
+  }
+  return { revoked: revoked.length };
+}
+
+/**
+ * Ensure an origin has been granted access to an account.
+ *
+ * @param origin - Origin of the request.
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @throws An `UnauthorizedError` if the account was not granted to the origin.
+ */
+export async function assertAccountPermitted(
+  origin: string,
+  addressIndex: number,
+  keyType: KeyType = 'secp256k1',
+) {
+  const { connections } = await getState();
+  if (!getGrantedIndices(connections[origin], keyType).includes(addressIndex)) {
+    throw new UnauthorizedError(
+      `The origin has not been granted access to the account ${addressIndex}.`,
+      { origin, addressIndex, keyType },
+    ) as unknown as Error;
+  }
+}
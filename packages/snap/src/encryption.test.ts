@@ -0,0 +1,111 @@
+import { expect } from '@jest/globals';
+import { Conversions } from 'casper-js-sdk';
+import { publicKeyCreate } from 'ethereum-cryptography/secp256k1-compat';
+
+import {
+  decryptMessage,
+  encryptMessage,
+  getEncryptionPublicKey,
+} from './encryption';
+
+const PRIVATE_KEY = new Uint8Array(32).fill(7);
+
+const OTHER_PRIVATE_KEY = new Uint8Array(32).fill(8);
+
+describe('getEncryptionPublicKey', () => {
+  it('uses the account public key of secp256k1 accounts', () => {
+    expect(getEncryptionPublicKey(PRIVATE_KEY, 'secp256k1')).toBe(
+      Conversions.encodeBase16(publicKeyCreate(PRIVATE_KEY, true)),
+    );
+  });
+
+  it('derives an X25519 key for ed25519 accounts', () => {
+    expect(getEncryptionPublicKey(PRIVATE_KEY, 'ed25519')).toMatch(
+      /^[0-9a-f]{64}$/u,
+    );
+  });
+});
+
+describe('encryptMessage', () => {
+  it.each(['secp256k1', 'ed25519'] as const)(
+    'encrypts a message for a %s account',
+    (keyType) => {
+      const publicKey = getEncryptionPublicKey(PRIVATE_KEY, keyType);
+
+      const envelope = encryptMessage('Hello Casper', publicKey);
+
+      expect(envelope).toStrictEqual({
+        version: 1,
+        algorithm:
+          keyType === 'ed25519'
+            ? 'x25519-xsalsa20-poly1305'
+            : 'secp256k1-xsalsa20-poly1305',
+        ephemeralPublicKey: expect.any(String),
+        nonce: expect.stringMatching(/^[0-9a-f]{48}$/u),
+        ciphertext: expect.any(String),
+      });
+      expect(decryptMessage(envelope, PRIVATE_KEY, keyType)).toBe(
+        'Hello Casper',
+      );
+    },
+  );
+
+  it('uses a new key pair and nonce for every message', () => {
+    const publicKey = getEncryptionPublicKey(PRIVATE_KEY, 'secp256k1');
+
+    const first = encryptMessage('Hello Casper', publicKey);
+    const second = encryptMessage('Hello Casper', publicKey);
+
+    expect(second.ephemeralPublicKey).not.toBe(first.ephemeralPublicKey);
+    expect(second.nonce).not.toBe(first.nonce);
+  });
+
+  it('rejects a public key that is not a secp256k1 point', () => {
+    expect(() =>
+      encryptMessage('Hello Casper', `02${'ff'.repeat(32)}`),
+    ).toThrow('Invalid params for casper_encrypt.');
+  });
+});
+
+describe('decryptMessage', () => {
+  it.each(['secp256k1', 'ed25519'] as const)(
+    'refuses a %s message encrypted for another account',
+    (keyType) => {
+      const envelope = encryptMessage(
+        'Hello Casper',
+        getEncryptionPublicKey(OTHER_PRIVATE_KEY, keyType),
+      );
+
+      expect(() => decryptMessage(envelope, PRIVATE_KEY, keyType)).toThrow(
+        'The message could not be decrypted with this account.',
+      );
+    },
+  );
+
+  it('refuses a tampered message', () => {
+    const envelope = encryptMessage(
+      'Hello Casper',
+      getEncryptionPublicKey(PRIVATE_KEY, 'ed25519'),
+    );
+    const lastDigit = envelope.ciphertext.endsWith('0') ? '1' : '0';
+    const tampered = {
+      ...envelope,
+      ciphertext: `${envelope.ciphertext.slice(0, -1)}${lastDigit}`,
+    };
+
+    expect(() => decryptMessage(tampered, PRIVATE_KEY, 'ed25519')).toThrow(
+      'The message could not be decrypted with this account.',
+    );
+  });
+
+  it('refuses a message encrypted for another key type', () => {
+    const envelope = encryptMessage(
+      'Hello Casper',
+      getEncryptionPublicKey(PRIVATE_KEY, 'secp256k1'),
+    );
+
+    expect(() => decryptMessage(envelope, PRIVATE_KEY, 'ed25519')).toThrow(
+      'The message could not be decrypted with this account.',
+    );
+  });
+});
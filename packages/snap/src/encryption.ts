@@ -0,0 +1,210 @@
+import { InvalidParamsError } from '@metamask/snaps-sdk';
+import type { Infer } from '@metamask/superstruct';
+import { enums, literal, object, pattern, string } from '@metamask/superstruct';
+import { Conversions } from 'casper-js-sdk';
+import { getRandomBytesSync } from 'ethereum-cryptography/random';
+import { utils } from 'ethereum-cryptography/secp256k1';
+import {
+  ecdh,
+  publicKeyCreate,
+  publicKeyVerify,
+} from 'ethereum-cryptography/secp256k1-compat';
+import * as nacl from 'tweetnacl-ts';
+
+import type { KeyType } from './accounts';
+import { CasperError, CasperErrorCode } from './errors';
+
+/**
+ * The version of the envelope format produced by {@link encryptMessage}.
+ * Envelopes of any other version are refused.
+ */
+export const ENCRYPTION_VERSION = 1;
+
+/**
+ * The encryption schemes of the envelope. Both use XSalsa20-Poly1305; the key
+ * is agreed with X25519 for Ed25519 accounts and with ECDH on Secp256k1 for
+ * Secp256k1 accounts.
+ */
+export const ENCRYPTION_ALGORITHMS = [
+  'x25519-xsalsa20-poly1305',
+  'secp256k1-xsalsa20-poly1305',
+] as const;
+
+export type EncryptionAlgorithm = (typeof ENCRYPTION_ALGORITHMS)[number];
+
+/**
+ * A hex encoded encryption public key: a 32-byte X25519 key, or a 33-byte
+ * compressed Secp256k1 key.
+ */
+export const EncryptionPublicKeyStruct = pattern(
+  string(),
+  /^([0-9a-fA-F]{64}|0[23][0-9a-fA-F]{64})$/u,
+);
+
+/**
+ * An encrypted message. Every field but the version and algorithm is hex
+ * encoded.
+ */
+export const EncryptedMessageStruct = object({
+  version: literal(ENCRYPTION_VERSION),
+  algorithm: enums(ENCRYPTION_ALGORITHMS),
+  // Public key of the one-time key pair of the sender.
+  ephemeralPublicKey: EncryptionPublicKeyStruct,
+  nonce: pattern(string(), /^[0-9a-fA-F]{48}$/u),
+  ciphertext: pattern(string(), /^([0-9a-fA-F]{2})+$/u),
+});
+
+export type EncryptedMessage = Infer<typeof EncryptedMessageStruct>;
+
+const ALGORITHMS: Record<KeyType, EncryptionAlgorithm> = {
+  ed25519: 'x25519-xsalsa20-poly1305',
+  secp256k1: 'secp256k1-xsalsa20-poly1305',
+};
+
+const NONCE_LENGTH = 24;
+
+/**
+ * Get the encryption algorithm of the messages encrypted for an account.
+ *
+ * @param keyType - Key type of the account.
+ * @returns The encryption algorithm.
+ */
+export function getEncryptionAlgorithm(keyType: KeyType) {
+  return ALGORITHMS[keyType];
+}
+
+/**
+ * Get the X25519 secret key of an Ed25519 account: the clamped scalar of the
+ * Ed25519 key, so that the X25519 public key is the Montgomery form of the
+ * account public key.
+ *
+ * @param seed - The 32-byte Ed25519 private key.
+ * @returns The X25519 secret key.
+ */
+function getX25519SecretKey(seed: Uint8Array) {
+  return nacl.hash(seed).slice(0, 32);
+}
+
+/**
+ * Get the encryption public key of an account. For Secp256k1 accounts, it is
+ * the account public key without its algorithm tag.
+ *
+ * @param privateKey - The private key of the account.
+ * @param keyType - Key type of the account.
+ * @returns The hex encoded encryption public key.
+ */
+export function getEncryptionPublicKey(
+  privateKey: Uint8Array,
+  keyType: KeyType,
+) {
+  return Conversions.encodeBase16(
+    keyType === 'ed25519'
+      ? nacl.box_keyPair_fromSecretKey(getX25519SecretKey(privateKey)).publicKey
+      : publicKeyCreate(privateKey, true),
+  );
+}
+
+/**
+ * Encrypt a message for the holder of an encryption public key, with a
+ * one-time key pair.
+ *
+ * @param message - The message to encrypt.
+ * @param publicKey - The hex encoded encryption public key of the recipient.
+ * @returns The encrypted message.
+ * @throws An `InvalidParamsError` if the public key is not a Secp256k1 point.
+ */
+export function encryptMessage(
+  message: string,
+  publicKey: string,
+): EncryptedMessage {
+  const recipientKey = Conversions.decodeBase16(publicKey);
+  const bytes = new TextEncoder().encode(message);
+  const nonce = getRandomBytesSync(NONCE_LENGTH);
+
+  if (recipientKey.length === 32) {
+    const ephemeral = nacl.box_keyPair_fromSecretKey(getRandomBytesSync(32));
+    return {
+      version: ENCRYPTION_VERSION,
+      algorithm: 'x25519-xsalsa20-poly1305',
+      ephemeralPublicKey: Conversions.encodeBase16(ephemeral.publicKey),
+      nonce: Conversions.encodeBase16(nonce),
+      ciphertext: Conversions.encodeBase16(
+        nacl.box(bytes, nonce, recipientKey, ephemeral.secretKey),
+      ),
+    };
+  }
+
+  if (!publicKeyVerify(recipientKey)) {
+    throw new InvalidParamsError('Invalid params for casper_encrypt.', {
+      method: 'casper_encrypt',
+      errors: [
+        { path: 'publicKey', message: 'Expected a Secp256k1 public key.' },
+      ],
+    }) as unknown as Error;
+  }
+  const ephemeralKey = utils.randomPrivateKey();
+  const sharedKey = ecdh(recipientKey, ephemeralKey);
+  return {
+    version: ENCRYPTION_VERSION,
+    algorithm: 'secp256k1-xsalsa20-poly1305',
+    ephemeralPublicKey: Conversions.encodeBase16(
+      publicKeyCreate(ephemeralKey, true),
+    ),
+    nonce: Conversions.encodeBase16(nonce),
+    ciphertext: Conversions.encodeBase16(
+      nacl.secretbox(bytes, nonce, sharedKey),
+    ),
+  };
+}
+
+/**
+ * Decrypt a message encrypted for an account.
+ *
+ * @param envelope - The encrypted message.
+ * @param privateKey - The private key of the account.
+ * @param keyType - Key type of the account.
+ * @returns The decrypted message.
+ * @throws A `CasperError` if the message was not encrypted for the account or
+ * was tampered with.
+ */
+export function decryptMessage(
+  envelope: EncryptedMessage,
+  privateKey: Uint8Array,
+  keyType: KeyType,
+) {
+  const { algorithm } = envelope;
+  const ephemeralKey = Conversions.decodeBase16(envelope.ephemeralPublicKey);
+  const nonce = Conversions.decodeBase16(envelope.nonce);
+  const ciphertext = Conversions.decodeBase16(envelope.ciphertext);
+
+  let bytes: Uint8Array | undefined;
+  try {
+    if (algorithm !== ALGORITHMS[keyType]) {
+      bytes = undefined;
+    } else if (keyType === 'ed25519') {
+      bytes = nacl.box_open(
+        ciphertext,
+        nonce,
+        ephemeralKey,
+        getX25519SecretKey(privateKey),
+      );
+    } else {
+      bytes = nacl.secretbox_open(
+        ciphertext,
+        nonce,
+        ecdh(ephemeralKey, privateKey),
+      );
+    }
+  } catch {
+    bytes = undefined;
+  }
+
+  if (!bytes) {
+    throw new CasperError(
+      CasperErrorCode.DecryptionFailed,
+      'The message could not be decrypted with this account.',
+      { algorithm, keyType },
+    );
+  }
+  return new TextDecoder().decode(bytes);
+}
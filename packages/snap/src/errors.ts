@@ -0,0 +1,61 @@
+import type { Json } from '@metamask/snaps-sdk';
+import { SnapError } from '@metamask/snaps-sdk';
+
+/**
+ * Casper specific JSON-RPC error codes.
+ *
+ * Standard failures use the EIP-1193 and JSON-RPC 2.0 codes instead:
+ * `4001` when the user rejects a request, `-32602` for invalid params and
+ * `-32601` for unknown methods.
+ */
+export enum CasperErrorCode {
+  UnsupportedCurve = 5001,
+  MissingPrivateKey = 5002,
+  InvalidTransaction = 5003,
+  InvalidSignature = 5004,
+  InvalidHash = 5005,
+  TimestampInFuture = 5006,
+  TransactionExpired = 5007,
+  TtlTooLong = 5008,
+  InvalidApproval = 5009,
+  ChainNameMismatch = 5010,
+  AlreadyApproved = 5011,
+  InvalidTypedData = 5012,
+  DomainMismatch = 5013,
+  BlindSigningDisabled = 5014,
+  DecryptionFailed = 5015,
+  NodeRequestFailed = 5016,
+  TransactionRejected = 5017,
+}
+
+/**
+ * An error specific to the Casper snap. The code is one of
+ * {@link CasperErrorCode} and `data` carries the structured details a dapp
+ * needs to handle the failure without parsing the message.
+ */
+export class CasperError extends SnapError {
+  /**
+   * Create a new `CasperError`.
+   *
+   * @param code - The Casper error code.
+   * @param message - A human-readable description of the error.
+   * @param data - Structured details about the error.
+   */
+  constructor(
+    code: CasperErrorCode,
+    message: string,
+    data?: Record<string, Json>,
+  ) {
+    super({ code, message }, data);
+  }
+}
+
+/**
+ * Get the message of an unknown thrown value.
+ *
+ * @param error - The thrown value.
+ * @returns The error message.
+ */
+export function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
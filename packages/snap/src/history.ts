@@ -0,0 +1,77 @@
+import type { Transaction } from 'casper-js-sdk';
+
+import type { HistoryEntry } from './state';
+import { getState, updateState } from './state';
+import { getNativeAmount, transactionToObject } from './utils';
+
+/**
+ * The number of entries kept in the audit log. The oldest entries are dropped
+ * once the log is full.
+ */
+export const MAX_HISTORY_ENTRIES = 200;
+
+/**
+ * A page of the audit log.
+ */
+export type HistoryPage = {
+  entries: HistoryEntry[];
+  // Number of entries matching the request, across all pages.
+  total: number;
+};
+
+/**
+ * Get the details of a transaction kept in the audit log.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @param signingKey - Public key of the account asked to sign.
+ * @returns The deploy fields of an audit log entry.
+ */
+export function getTransactionHistoryDetails(
+  transaction: Transaction,
+  signingKey: string,
+): Pick<HistoryEntry, 'deployHash' | 'chainName' | 'deployType' | 'amount'> {
+  return {
+    deployHash: transaction.hash.toHex(),
+    chainName: transaction.chainName,
+    deployType: transactionToObject(transaction, signingKey).deployType,
+    amount: getNativeAmount(transaction),
+  };
+}
+
+/**
+ * Record a signing request in the audit log, dropping the oldest entries past
+ * {@link MAX_HISTORY_ENTRIES}.
+ *
+ * @param entry - The signing request and the decision of the user.
+ */
+export async function recordHistory(entry: HistoryEntry) {
+  await updateState((state) => ({
+    ...state,
+    history: [entry, ...state.history].slice(0, MAX_HISTORY_ENTRIES),
+  }));
+}
+
+/**
+ * Get a page of the audit log, newest first.
+ *
+ * @param offset - Number of entries to skip.
+ * @param limit - Maximum number of entries to return.
+ * @param origin - Only return the entries of this origin. All entries are
+ * returned when omitted.
+ * @returns The page of entries and the total number of entries.
+ */
+export async function getHistory(
+  offset: number,
+  limit: number,
+  origin?: string,
+): Promise<HistoryPage> {
+  const { history } = await getState();
+  const entries =
+    origin === undefined
+      ? history
+      : history.filter((entry) => entry.origin === origin);
+  return {
+    entries: entries.slice(offset, offset + limit),
+    total: entries.length,
+  };
+}
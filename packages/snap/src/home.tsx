@@ -0,0 +1,548 @@
+import { parseFixed } from '@ethersproject/bignumber';
+import type { InterfaceContext, UserInputEvent } from '@metamask/snaps-sdk';
+import { UserInputEventType } from '@metamask/snaps-sdk';
+import {
+  Box,
+  Button,
+  Checkbox,
+  Copyable,
+  Divider,
+  Dropdown,
+  Field,
+  Form,
+  Heading,
+  Input,
+  Option,
+  Row,
+  Section,
+  Text,
+} from '@metamask/snaps-sdk/jsx';
+
+import { getCSPRAddress, getDefaultAccountLabel } from './accounts';
+import { getHistory } from './history';
+import type { Messages } from './i18n';
+import { getMessages, isLanguage, LANGUAGE_NAMES, LANGUAGES } from './i18n';
+import type { HistoryEntry, SnapState, TrackedTransaction } from './state';
+import { getState, updateState } from './state';
+import { getTrackedTransactions } from './tracking';
+import { convertMotesToCasper } from './utils';
+
+/**
+ * The pages of the home page.
+ */
+export type HomePage = 'accounts' | 'settings' | 'history' | 'transactions';
+
+/**
+ * The messages reported after a submission of the settings form.
+ */
+type SettingsNotice =
+  | 'settingsSaved'
+  | 'unknownNetwork'
+  | 'invalidThreshold'
+  | 'invalidGasPrice';
+
+/**
+ * The context of the home page interface.
+ */
+export type HomePageContext = {
+  page: HomePage;
+  // Outcome of the last settings submission, if any. The message is
+  // translated when rendered, so that it follows a change of language.
+  notice: { type: 'error' | 'success'; message: SettingsNotice } | null;
+  // Number of entries before the shown page of the audit log or of the
+  // tracked transactions.
+  historyOffset: number;
+};
+
+const EVENT_PREFIX = 'home-';
+
+const PAGE_BUTTON_PREFIX = 'home-page:';
+
+const SETTINGS_FORM = 'home-settings';
+
+const NEWER_HISTORY_BUTTON = 'home-history-newer';
+
+const OLDER_HISTORY_BUTTON = 'home-history-older';
+
+const HISTORY_PAGE_SIZE = 10;
+
+const PAGES: HomePage[] = ['accounts', 'settings', 'history', 'transactions'];
+
+const TRANSACTION_STATUS_COLORS: Record<
+  TrackedTransaction['status'],
+  'default' | 'success' | 'error' | 'warning'
+> = {
+  pending: 'default',
+  succeeded: 'success',
+  failed: 'error',
+  expired: 'warning',
+};
+
+/**
+ * Render the accounts page: every registered account, or the first account if
+ * the registry is empty.
+ *
+ * @param state - The snap state.
+ * @param messages - The strings of the language of the user.
+ * @returns The page content.
+ */
+async function renderAccounts(state: SnapState, messages: Messages) {
+  const accounts =
+    state.accounts.length > 0
+      ? state.accounts
+      : [{ addressIndex: 0, keyType: 'secp256k1' as const, hidden: false }];
+  const sections = [];
+  for (const { addressIndex, keyType, hidden } of accounts) {
+    const account = await getCSPRAddress(addressIndex, keyType);
+    sections.push(
+      <Section>
+        <Row
+          label={account.label ?? getDefaultAccountLabel(addressIndex, keyType)}
+        >
+          <Text>
+            {account.derivationPath}
+            {hidden ? messages.hidden : ''}
+          </Text>
+        </Row>
+        <Text>{messages.publicKey}</Text>
+        <Copyable value={account.publicKey} />
+        <Text>{messages.accountHash}</Text>
+        <Copyable value={account.accountHash} />
+      </Section>,
+    );
+  }
+  return <Box>{sections}</Box>;
+}
+
+/**
+ * Render the settings page.
+ *
+ * @param state - The snap state.
+ * @param notice - Outcome of the last settings submission.
+ * @param messages - The strings of the language of the user.
+ * @returns The page content.
+ */
+function renderSettings(
+  state: SnapState,
+  notice: HomePageContext['notice'],
+  messages: Messages,
+) {
+  const { riskSettings, settings } = state;
+  return (
+    <Box>
+      <Form name={SETTINGS_FORM}>
+        <Field label={messages.defaultNetwork}>
+          <Dropdown name="defaultNetwork" value={state.defaultNetwork}>
+            {state.networks.map((network) => (
+              <Option value={network.chainName}>{network.name}</Option>
+            ))}
+          </Dropdown>
+        </Field>
+        <Field label={messages.amountThreshold}>
+          <Input
+            name="amountThreshold"
+            type="number"
+            min={0}
+            value={convertMotesToCasper(riskSettings.amountThreshold)}
+          />
+        </Field>
+        <Field label={messages.maxGasPrice}>
+          <Input
+            name="maxGasPriceTolerance"
+            type="number"
+            min={1}
+            step={1}
+            value={riskSettings.maxGasPriceTolerance.toString()}
+          />
+        </Field>
+        <Field label={messages.blindSigning}>
+          <Checkbox
+            name="blindSigning"
+            variant="toggle"
+            label={messages.blindSigningToggle}
+            checked={settings.blindSigning}
+          />
+        </Field>
+        <Field label={messages.balances}>
+          <Checkbox
+            name="nodeQueries"
+            variant="toggle"
+            label={messages.balancesToggle}
+            checked={settings.nodeQueries}
+          />
+        </Field>
+        <Field label={messages.language}>
+          <Dropdown name="language" value={settings.language}>
+            <Option value="auto">{messages.metaMaskLanguage}</Option>
+            {LANGUAGES.map((language) => (
+              <Option value={language}>{LANGUAGE_NAMES[language]}</Option>
+            ))}
+          </Dropdown>
+        </Field>
+        <Button type="submit" name={`${SETTINGS_FORM}-submit`}>
+          {messages.save}
+        </Button>
+      </Form>
+      {notice ? (
+        <Text color={notice.type}>{messages[notice.message]}</Text>
+      ) : null}
+    </Box>
+  );
+}
+
+/**
+ * Render an entry of the audit log.
+ *
+ * @param entry - The audit log entry.
+ * @param messages - The strings of the language of the user.
+ * @returns The entry content.
+ */
+function renderHistoryEntry(entry: HistoryEntry, messages: Messages) {
+  return (
+    <Section>
+      <Row label={messages.historyMethods[entry.method]}>
+        <Text color={entry.decision === 'approved' ? 'success' : 'error'}>
+          {entry.decision === 'approved'
+            ? messages.approved
+            : messages.rejected}
+        </Text>
+      </Row>
+      <Row label={messages.date}>
+        <Text>{new Date(entry.timestamp).toISOString()}</Text>
+      </Row>
+      <Row label={messages.origin}>
+        <Text>{entry.origin}</Text>
+      </Row>
+      <Row label={messages.account}>
+        <Text>{entry.account}</Text>
+      </Row>
+      {entry.deployType ? (
+        <Row label={messages.deployType}>
+          <Text>{entry.deployType}</Text>
+        </Row>
+      ) : null}
+      {entry.amount ? (
+        <Row label={messages.amount}>
+          <Text>{convertMotesToCasper(entry.amount)} CSPR</Text>
+        </Row>
+      ) : null}
+      {entry.deployHash ? (
+        <Row label={messages.deployHash}>
+          <Text>{entry.deployHash}</Text>
+        </Row>
+      ) : null}
+      {entry.chainName ? (
+        <Row label={messages.chainName}>
+          <Text>{entry.chainName}</Text>
+        </Row>
+      ) : null}
+    </Section>
+  );
+}
+
+/**
+ * Render the buttons paging through the audit log or the tracked
+ * transactions.
+ *
+ * @param offset - Number of entries before the shown page.
+ * @param total - Number of entries across all pages.
+ * @param messages - The strings of the language of the user.
+ * @returns The buttons.
+ */
+function renderPageButtons(offset: number, total: number, messages: Messages) {
+  return (
+    <Box direction="horizontal" alignment="space-between">
+      <Button name={NEWER_HISTORY_BUTTON} disabled={offset === 0}>
+        {messages.newer}
+      </Button>
+      <Button
+        name={OLDER_HISTORY_BUTTON}
+        disabled={offset + HISTORY_PAGE_SIZE >= total}
+      >
+        {messages.older}
+      </Button>
+    </Box>
+  );
+}
+
+/**
+ * Render a page of the audit log, with buttons to page through it.
+ *
+ * @param offset - Number of entries before the page.
+ * @param messages - The strings of the language of the user.
+ * @returns The page content.
+ */
+async function renderHistory(offset: number, messages: Messages) {
+  const { entries, total } = await getHistory(offset, HISTORY_PAGE_SIZE);
+  if (total === 0) {
+    return <Text>{messages.noHistory}</Text>;
+  }
+  return (
+    <Box>
+      <Text>
+        {messages.historyRange(offset + 1, offset + entries.length, total)}
+      </Text>
+      {entries.map((entry) => renderHistoryEntry(entry, messages))}
+      {renderPageButtons(offset, total, messages)}
+    </Box>
+  );
+}
+
+/**
+ * Render a tracked transaction.
+ *
+ * @param tracked - The tracked transaction.
+ * @param messages - The strings of the language of the user.
+ * @returns The transaction content.
+ */
+function renderTrackedTransaction(
+  tracked: TrackedTransaction,
+  messages: Messages,
+) {
+  return (
+    <Section>
+      <Row label={messages.status}>
+        <Text color={TRANSACTION_STATUS_COLORS[tracked.status]}>
+          {messages.transactionStatuses[tracked.status]}
+        </Text>
+      </Row>
+      <Row label={messages.submitted}>
+        <Text>{new Date(tracked.submittedAt).toISOString()}</Text>
+      </Row>
+      <Row label={messages.origin}>
+        <Text>{tracked.origin}</Text>
+      </Row>
+      <Row label={messages.deployHash}>
+        <Text>{tracked.transactionHash}</Text>
+      </Row>
+      <Row label={messages.chainName}>
+        <Text>{tracked.chainName}</Text>
+      </Row>
+      {tracked.errorMessage ? (
+        <Row label={messages.error}>
+          <Text>{tracked.errorMessage}</Text>
+        </Row>
+      ) : null}
+    </Section>
+  );
+}
+
+/**
+ * Render a page of the tracked transactions, with buttons to page through
+ * them.
+ *
+ * @param offset - Number of transactions before the page.
+ * @param messages - The strings of the language of the user.
+ * @returns The page content.
+ */
+async function renderTransactions(offset: number, messages: Messages) {
+  const { transactions, total } = await getTrackedTransactions(
+    offset,
+    HISTORY_PAGE_SIZE,
+  );
+  if (total === 0) {
+    return <Text>{messages.noTransactions}</Text>;
+  }
+  return (
+    <Box>
+      <Text>
+        {messages.transactionRange(
+          offset + 1,
+          offset + transactions.length,
+          total,
+        )}
+      </Text>
+      {transactions.map((tracked) =>
+        renderTrackedTransaction(tracked, messages),
+      )}
+      {renderPageButtons(offset, total, messages)}
+    </Box>
+  );
+}
+
+/**
+ * Render the home page.
+ *
+ * @param context - The interface context.
+ * @returns The interface content.
+ */
+async function renderHomePage(context: HomePageContext) {
+  const state = await getState();
+  const messages = await getMessages(state.settings.language);
+  const { page } = context;
+  let content;
+  if (page === 'accounts') {
+    content = await renderAccounts(state, messages);
+  } else if (page === 'settings') {
+    content = renderSettings(state, context.notice, messages);
+  } else if (page === 'history') {
+    content = await renderHistory(context.historyOffset, messages);
+  } else {
+    content = await renderTransactions(context.historyOffset, messages);
+  }
+
+  return (
+    <Box>
+      <Heading>Casper</Heading>
+      <Box direction="horizontal" alignment="space-between">
+        {PAGES.map((name) => (
+          <Button
+            name={`${PAGE_BUTTON_PREFIX}${name}`}
+            disabled={name === page}
+          >
+            {messages.pages[name]}
+          </Button>
+        ))}
+      </Box>
+      <Divider />
+      {content}
+    </Box>
+  );
+}
+
+/**
+ * Apply a submission of the settings form to the snap state.
+ *
+ * @param state - The snap state.
+ * @param value - The submitted form values.
+ * @returns The new snap state, or the error to report if a value is invalid.
+ */
+function applySettings(
+  state: SnapState,
+  value: Record<string, unknown>,
+): SnapState | Exclude<SettingsNotice, 'settingsSaved'> {
+  const { defaultNetwork, amountThreshold, maxGasPriceTolerance, language } =
+    value;
+  if (!state.networks.some((network) => network.chainName === defaultNetwork)) {
+    return 'unknownNetwork';
+  }
+
+  let threshold;
+  try {
+    threshold = parseFixed(String(amountThreshold), 9);
+  } catch {
+    return 'invalidThreshold';
+  }
+  if (threshold.isNegative()) {
+    return 'invalidThreshold';
+  }
+
+  const gasPrice = Number(maxGasPriceTolerance);
+  if (!Number.isInteger(gasPrice) || gasPrice < 1) {
+    return 'invalidGasPrice';
+  }
+
+  return {
+    ...state,
+    defaultNetwork: defaultNetwork as string,
+    riskSettings: {
+      ...state.riskSettings,
+      amountThreshold: threshold.toString(),
+      maxGasPriceTolerance: gasPrice,
+    },
+    settings: {
+      blindSigning: value.blindSigning === true,
+      nodeQueries: value.nodeQueries === true,
+      language: isLanguage(language) ? language : 'auto',
+    },
+  };
+}
+
+/**
+ * Create the home page interface.
+ *
+ * @returns The interface ID.
+ */
+export async function createHomePage() {
+  const context: HomePageContext = {
+    page: 'accounts',
+    notice: null,
+    historyOffset: 0,
+  };
+  return await snap.request({
+    method: 'snap_createInterface',
+    params: { ui: await renderHomePage(context), context },
+  });
+}
+
+/**
+ * Check if a user input event comes from the home page.
+ *
+ * @param event - The user input event.
+ * @returns `true` if the event belongs to the home page.
+ */
+export function isHomePageEvent(event: UserInputEvent) {
+  return event.name?.startsWith(EVENT_PREFIX) ?? false;
+}
+
+/**
+ * Handle the interactions of the user with the home page.
+ *
+ * @param id - The interface ID.
+ * @param event - The user input event.
+ * @param context - The interface context.
+ */
+export async function handleHomePageInput(
+  id: string,
+  event: UserInputEvent,
+  context: InterfaceContext | null,
+) {
+  const homeContext = (context ?? {
+    page: 'accounts',
+    notice: null,
+    historyOffset: 0,
+  }) as HomePageContext;
+  let newContext: HomePageContext;
+  if (
+    event.type === UserInputEventType.ButtonClickEvent &&
+    event.name?.startsWith(PAGE_BUTTON_PREFIX)
+  ) {
+    newContext = {
+      page: event.name.slice(PAGE_BUTTON_PREFIX.length) as HomePage,
+      notice: null,
+      historyOffset: 0,
+    };
+  } else if (
+    event.type === UserInputEventType.ButtonClickEvent &&
+    (event.name === NEWER_HISTORY_BUTTON || event.name === OLDER_HISTORY_BUTTON)
+  ) {
+    const step =
+      event.name === NEWER_HISTORY_BUTTON
+        ? -HISTORY_PAGE_SIZE
+        : HISTORY_PAGE_SIZE;
+    newContext = {
+      ...homeContext,
+      historyOffset: Math.max(homeContext.historyOffset + step, 0),
+    };
+  } else if (
+    event.type === UserInputEventType.FormSubmitEvent &&
+    event.name === SETTINGS_FORM
+  ) {
+    let error: SettingsNotice | null = null;
+    await updateState((state) => {
+      const result = applySettings(state, event.value);
+      if (typeof result === 'string') {
+        error = result;
+        return state;
+      }
+      return result;
+    });
+    newContext = {
+      ...homeContext,
+      notice: error
+        ? { type: 'error', message: error }
+        : { type: 'success', message: 'settingsSaved' },
+    };
+  } else {
+    return;
+  }
+
+  await snap.request({
+    method: 'snap_updateInterface',
+    params: {
+      id,
+      ui: await renderHomePage(newContext),
+      context: newContext,
+    },
+  });
+}
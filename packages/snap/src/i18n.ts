@@ -0,0 +1,186 @@
+import type { HistoryEntry, Settings, TrackedTransaction } from './state';
+
+/**
+ * The languages the home page and the notifications are translated to.
+ */
+export const LANGUAGES = ['en', 'fr'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+/**
+ * The name of each language, in that language.
+ */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  fr: 'Français',
+};
+
+/* eslint-disable @typescript-eslint/naming-convention */
+const en = {
+  pages: {
+    accounts: 'Accounts',
+    settings: 'Settings',
+    history: 'History',
+    transactions: 'Transactions',
+  },
+  hidden: ' (hidden)',
+  publicKey: 'Public key',
+  accountHash: 'Account hash',
+  defaultNetwork: 'Default network',
+  amountThreshold: 'Amount warning threshold (CSPR)',
+  maxGasPrice: 'Maximum gas price',
+  blindSigning: 'Blind signing',
+  blindSigningToggle: 'Allow sites to request signatures of raw hashes',
+  balances: 'Balances',
+  balancesToggle:
+    'Query the network node for the balance of the signing account',
+  language: 'Language',
+  metaMaskLanguage: 'MetaMask language',
+  save: 'Save',
+  settingsSaved: 'Settings saved.',
+  unknownNetwork: 'Select a known network.',
+  invalidThreshold: 'The amount threshold must be an amount of CSPR.',
+  invalidGasPrice: 'The maximum gas price must be a positive integer.',
+  historyMethods: {
+    casper_sign: 'Deploy',
+    casper_signBatch: 'Batch deploy',
+    casper_signIn: 'Sign-in',
+    casper_signMessage: 'Message',
+    casper_signTypedData: 'Typed data',
+  } as Record<HistoryEntry['method'], string>,
+  approved: 'Approved',
+  rejected: 'Rejected',
+  date: 'Date',
+  origin: 'Origin',
+  account: 'Account',
+  deployType: 'Deploy Type',
+  amount: 'Amount',
+  deployHash: 'Deploy Hash',
+  chainName: 'Chain Name',
+  newer: 'Newer',
+  older: 'Older',
+  noHistory: 'No signing request yet.',
+  historyRange: (first: number, last: number, total: number) =>
+    `Entries ${first} to ${last} of ${total}`,
+  transactionStatuses: {
+    pending: 'Pending',
+    succeeded: 'Succeeded',
+    failed: 'Failed',
+    expired: 'Expired',
+  } as Record<TrackedTransaction['status'], string>,
+  status: 'Status',
+  submitted: 'Submitted',
+  error: 'Error',
+  noTransactions: 'No submitted transaction yet.',
+  transactionRange: (first: number, last: number, total: number) =>
+    `Transactions ${first} to ${last} of ${total}`,
+  deploySucceeded: (hash: string, chainName: string) =>
+    `Deploy ${hash} was executed on ${chainName}.`,
+  deployFailed: (hash: string, chainName: string, reason: string) =>
+    `Deploy ${hash} failed on ${chainName}: ${reason}`,
+  deployExpired: (hash: string, chainName: string) =>
+    `Deploy ${hash} expired before it was executed on ${chainName}.`,
+  unknownError: 'unknown error',
+};
+
+export type Messages = typeof en;
+
+const fr: Messages = {
+  pages: {
+    accounts: 'Comptes',
+    settings: 'Paramètres',
+    history: 'Historique',
+    transactions: 'Transactions',
+  },
+  hidden: ' (masqué)',
+  publicKey: 'Clé publique',
+  accountHash: 'Hash du compte',
+  defaultNetwork: 'Réseau par défaut',
+  amountThreshold: "Seuil d'alerte de montant (CSPR)",
+  maxGasPrice: 'Prix du gaz maximal',
+  blindSigning: "Signature à l'aveugle",
+  blindSigningToggle:
+    'Autoriser les sites à demander la signature de hashs bruts',
+  balances: 'Soldes',
+  balancesToggle:
+    'Interroger le nœud du réseau pour le solde du compte signataire',
+  language: 'Langue',
+  metaMaskLanguage: 'Langue de MetaMask',
+  save: 'Enregistrer',
+  settingsSaved: 'Paramètres enregistrés.',
+  unknownNetwork: 'Sélectionnez un réseau connu.',
+  invalidThreshold: 'Le seuil de montant doit être un montant en CSPR.',
+  invalidGasPrice: 'Le prix du gaz maximal doit être un entier positif.',
+  historyMethods: {
+    casper_sign: 'Deploy',
+    casper_signBatch: 'Lot de deploys',
+    casper_signIn: 'Connexion',
+    casper_signMessage: 'Message',
+    casper_signTypedData: 'Données typées',
+  },
+  approved: 'Approuvé',
+  rejected: 'Refusé',
+  date: 'Date',
+  origin: 'Origine',
+  account: 'Compte',
+  deployType: 'Type de deploy',
+  amount: 'Montant',
+  deployHash: 'Hash du deploy',
+  chainName: 'Nom de la chaîne',
+  newer: 'Plus récents',
+  older: 'Plus anciens',
+  noHistory: "Aucune demande de signature pour l'instant.",
+  historyRange: (first: number, last: number, total: number) =>
+    `Entrées ${first} à ${last} sur ${total}`,
+  transactionStatuses: {
+    pending: 'En attente',
+    succeeded: 'Réussie',
+    failed: 'Échouée',
+    expired: 'Expirée',
+  },
+  status: 'Statut',
+  submitted: 'Soumise le',
+  error: 'Erreur',
+  noTransactions: "Aucune transaction soumise pour l'instant.",
+  transactionRange: (first: number, last: number, total: number) =>
+    `Transactions ${first} à ${last} sur ${total}`,
+  deploySucceeded: (hash: string, chainName: string) =>
+    `Le deploy ${hash} a été exécuté sur ${chainName}.`,
+  deployFailed: (hash: string, chainName: string, reason: string) =>
+    `Le deploy ${hash} a échoué sur ${chainName} : ${reason}`,
+  deployExpired: (hash: string, chainName: string) =>
+    `Le deploy ${hash} a expiré avant d'être exécuté sur ${chainName}.`,
+  unknownError: 'erreur inconnue',
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+const MESSAGES: Record<Language, Messages> = { en, fr };
+
+/**
+ * Check if a value is a language the snap is translated to.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value is a supported language.
+ */
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.includes(value as Language);
+}
+
+/**
+ * Get the strings of the language selected in the settings. The `auto`
+ * setting follows the locale of MetaMask, and falls back to English when the
+ * snap is not translated to it.
+ *
+ * @param language - The language setting.
+ * @returns The translated strings.
+ */
+export async function getMessages(
+  language: Settings['language'],
+): Promise<Messages> {
+  if (language !== 'auto') {
+    return MESSAGES[language];
+  }
+  const { locale } = await snap.request({ method: 'snap_getPreferences' });
+  const [code] = locale.toLowerCase().split(/[-_]/u);
+  return MESSAGES[isLanguage(code) ? code : 'en'];
+}
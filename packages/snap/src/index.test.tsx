@@ -1,5 +1,282 @@
 import { expect } from '@jest/globals';
 import { installSnap } from '@metamask/snaps-jest';
+import type { Json } from '@metamask/snaps-sdk';
+import { assert } from '@metamask/snaps-sdk';
+import {
+  Args,
+  CLTypeUInt8,
+  CLValue,
+  Conversions,
+  Deploy,
+  DeployHeader,
+  ExecutableDeployItem,
+  KeyAlgorithm,
+  ModuleBytes,
+  PrivateKey,
+  PublicKey,
+  TransferDeployItem,
+} from 'casper-js-sdk';
+import { ecdsaRecover } from 'ethereum-cryptography/secp256k1-compat';
+import { sha256 } from 'ethereum-cryptography/sha256';
+// The stand-in node runs in Node.js, next to the simulated snap.
+// eslint-disable-next-line import/no-nodejs-modules
+import { createServer } from 'http';
+// eslint-disable-next-line import/no-nodejs-modules
+import type { AddressInfo } from 'net';
+
+import { encodeTypedData } from './typeddata';
+import { encodeMessage, verifyMessage, verifySignIn } from './verify';
+
+const ORIGIN = 'https://metamask.io';
+
+const ACCOUNT_0 =
+  '02025e3cc431e77e52e39e590af36a5dcb7e6ef1e22af86bfd8f022eeea8fccb6740';
+
+const ED25519_ACCOUNT_0 =
+  '0153954d26c10921e325085edda6bfee7aa32f105bb3dac15650ce3b210846eeeb';
+
+const ACCOUNT_0_DESCRIPTOR = {
+  addressIndex: 0,
+  publicKey:
+    '02025E3cC431e77E52e39E590AF36a5dcb7e6EF1E22aF86BfD8F022Eeea8Fccb6740',
+  accountHash:
+    'account-hash-5b5a09ffb73ba52a4b71ed3d00864c775d25f6e4789d69ea3c4936c10a1d3f2b',
+  algorithm: 'secp256k1',
+  derivationPath: "m/44'/506'/0'/0/0",
+};
+
+const ACCOUNT_1_DESCRIPTOR = {
+  addressIndex: 1,
+  publicKey:
+    '02025F8aa8213534Eb9aCc9cbd3D464Cd4990E4dD90F1e6A957cDDEdfc3B5d21CA42',
+  accountHash:
+    'account-hash-b8d38b4ba2142f467872ccfb0ef931fc02132a66391990ad0c4331a9a1fb01cf',
+  algorithm: 'secp256k1',
+  derivationPath: "m/44'/506'/0'/0/1",
+};
+
+const ED25519_ACCOUNT_0_DESCRIPTOR = {
+  addressIndex: 0,
+  publicKey:
+    '0153954d26c10921e325085EDDA6bFEe7AA32F105bB3daC15650cE3b210846eEeb',
+  accountHash:
+    'account-hash-f38cbdf8ddb39da9147e5719c7dbf1fc83840ad4875f59ff62424af84e5b790b',
+  algorithm: 'ed25519',
+  derivationPath: "m/44'/506'/0'/0'/0'",
+};
+
+const ED25519_ACCOUNT_1_DESCRIPTOR = {
+  addressIndex: 1,
+  publicKey:
+    '01764bBEd453990e6b79f662C5600A09aA4d5Ca9f720707d4182Cf8f284536E500',
+  accountHash:
+    'account-hash-ae3680892d69027ba8d903fb57910732d0a9d5b474063c7e16b2517f8b0c6f64',
+  algorithm: 'ed25519',
+  derivationPath: "m/44'/506'/0'/0'/1'",
+};
+
+/**
+ * Install the snap with the first two accounts already granted to the test
+ * origin.
+ *
+ * @returns The installed snap.
+ */
+async function installConnectedSnap() {
+  return installSnap({
+    options: {
+      state: {
+        connections: {
+          [ORIGIN]: {
+            addressIndices: [0, 1],
+            ed25519AddressIndices: [0, 1],
+            connectedAt: 0,
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Create an audit log entry of an approved message signature.
+ *
+ * @param origin - Origin of the request.
+ * @returns The audit log entry.
+ */
+function createHistoryEntry(origin: string) {
+  return {
+    method: 'casper_signMessage',
+    origin,
+    account: ACCOUNT_0_DESCRIPTOR.publicKey,
+    timestamp: 0,
+    decision: 'approved',
+    deployHash: null,
+    chainName: null,
+    deployType: null,
+    amount: null,
+  };
+}
+
+/**
+ * Create a pending transaction tracked by the snap.
+ *
+ * @param nodeUrl - URL of the node the transaction was submitted to.
+ * @param overrides - The fields differing from a pending legacy deploy
+ * submitted by the test origin.
+ * @returns The tracked transaction.
+ */
+function createTrackedTransaction(
+  nodeUrl: string,
+  overrides: Record<string, unknown> = {},
+) {
+  return {
+    transactionHash: '0a'.repeat(32),
+    isDeploy: true,
+    origin: ORIGIN,
+    chainName: 'casper-test',
+    nodeUrl,
+    submittedAt: 0,
+    expiresAt: Date.now() + 1_800_000,
+    status: 'pending',
+    errorMessage: null,
+    ...overrides,
+  };
+}
+
+/**
+ * A JSON formatted legacy deploy, typed for the fields the tests read or edit.
+ */
+type DeployJson = Record<string, Json> & {
+  hash: string;
+  header: Record<string, Json> & { timestamp: string };
+  approvals: { signer: string; signature: string }[];
+};
+
+/**
+ * Create a legacy deploy.
+ *
+ * @param publicKey - Public Key hex string of the sender.
+ * @param session - The session item, a transfer by default.
+ * @param chainName - The chain name.
+ * @returns A JSON formatted legacy deploy.
+ */
+function createLegacyDeploy(
+  publicKey: string,
+  session = new ExecutableDeployItem(),
+  chainName = 'casper-test',
+): DeployJson {
+  if (!session.moduleBytes) {
+    session.transfer = TransferDeployItem.newTransfer(
+      '2500000000',
+      PublicKey.fromHex(
+        '010068920746ecf5870e18911EE1fC5db975E0e97fFFcBBF52f5045Ad6C9838D2F',
+      ),
+      undefined,
+      35,
+    );
+  }
+
+  const deployHeader = DeployHeader.default();
+  deployHeader.account = PublicKey.fromHex(publicKey);
+  deployHeader.chainName = chainName;
+
+  return Deploy.toJson(
+    Deploy.makeDeploy(
+      deployHeader,
+      ExecutableDeployItem.standardPayment('100000000'),
+      session,
+    ),
+  ) as DeployJson;
+}
+
+/**
+ * A JSON-RPC request received by a stand-in node.
+ */
+type NodeRequest = { method: string; params: Record<string, unknown> };
+
+/**
+ * Start a local stand-in for the JSON-RPC API of a Casper node.
+ *
+ * @param handlers - The result of each method. Methods without handler are
+ * answered with a JSON-RPC error.
+ * @returns The URL of the endpoint, the requests it received and a function
+ * stopping it.
+ */
+async function startNode(handlers: Record<string, unknown>) {
+  const requests: NodeRequest[] = [];
+  const server = createServer((incoming, outgoing) => {
+    let body = '';
+    incoming.on('data', (chunk) => {
+      body += String(chunk);
+    });
+    incoming.on('end', () => {
+      const { id, method, params } = JSON.parse(body) as NodeRequest & {
+        id: number;
+      };
+      requests.push({ method, params });
+      outgoing.setHeader('Content-Type', 'application/json');
+      outgoing.end(
+        JSON.stringify(
+          method in handlers
+            ? { jsonrpc: '2.0', id, result: handlers[method] }
+            : {
+                jsonrpc: '2.0',
+                id,
+                error: { code: -32001, message: `No handler for ${method}.` },
+              },
+        ),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}/rpc`,
+    requests,
+    close: async () =>
+      new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Install the snap with the first account granted to the test origin and the
+ * Testnet profile pointed at a stand-in node.
+ *
+ * @param nodeUrl - URL of the stand-in node.
+ * @param nodeQueries - Whether the user allowed the node to be queried.
+ * @returns The installed snap.
+ */
+async function installSnapWithNode(nodeUrl: string, nodeQueries = true) {
+  return installSnap({
+    options: {
+      state: {
+        connections: {
+          [ORIGIN]: { addressIndices: [0], connectedAt: 0 },
+        },
+        networks: [{ name: 'Testnet', chainName: 'casper-test', nodeUrl }],
+        settings: { blindSigning: false, nodeQueries, language: 'auto' },
+      },
+    },
+  });
+}
+
+/**
+ * Get the handlers of a stand-in node holding an account with a balance.
+ *
+ * @param balance - The balance of the account, in motes.
+ * @returns The result of each node method.
+ */
+function createBalanceHandlers(balance: string) {
+  return {
+    /* eslint-disable @typescript-eslint/naming-convention */
+    info_get_status: { chainspec_name: 'casper-test', api_version: '1.5.6' },
+    state_get_account_info: {
+      account: { main_purse: `uref-${'0a'.repeat(32)}-007` },
+    },
+    query_balance: { balance },
+    /* eslint-enable @typescript-eslint/naming-convention */
+  };
+}
 
 describe('onRpcRequest', () => {
   it('throws an error if the requested method does not exist', async () => {
@@ -10,24 +287,22 @@ describe('onRpcRequest', () => {
     });
 
     expect(response).toRespondWithError({
-      code: -32603,
-      message: 'Method not found.',
+      code: -32601,
+      message: 'The method does not exist / is not available.',
+      data: expect.objectContaining({ method: 'foo' }),
       stack: expect.any(String),
     });
   });
   it('get cspr account', async () => {
-    const { request } = await installSnap();
+    const { request } = await installConnectedSnap();
 
     const response = await request({
       method: 'casper_getAccount',
     });
-    expect(response).toRespondWith({
-      publicKey:
-        '02025e3cc431e77e52e39e590af36a5dcb7e6ef1e22af86bfd8f022eeea8fccb6740',
-    });
+    expect(response).toRespondWith(ACCOUNT_0_DESCRIPTOR);
   });
   it('get cspr account derived 1', async () => {
-    const { request } = await installSnap();
+    const { request } = await installConnectedSnap();
 
     const response = await request({
       method: 'casper_getAccount',
@@ -35,10 +310,67 @@ describe('onRpcRequest', () => {
         addressIndex: 1,
       },
     });
-    expect(response).toRespondWith({
-      publicKey:
-        '02025f8aa8213534eb9acc9cbd3d464cd4990e4dd90f1e6a957cddedfc3b5d21ca42',
+    expect(response).toRespondWith(ACCOUNT_1_DESCRIPTOR);
+  });
+  it('get a range of cspr accounts', async () => {
+    const { request } = await installConnectedSnap();
+
+    expect(
+      await request({
+        method: 'casper_getAccounts',
+        params: { count: 2 },
+      }),
+    ).toRespondWith([ACCOUNT_0_DESCRIPTOR, ACCOUNT_1_DESCRIPTOR]);
+    expect(
+      await request({
+        method: 'casper_getAccounts',
+        params: { startIndex: 1, count: 1, keyType: 'ed25519' },
+      }),
+    ).toRespondWith([ED25519_ACCOUNT_1_DESCRIPTOR]);
+  });
+  it('refuses a range including an account that was not granted', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = await request({
+      method: 'casper_getAccounts',
+      params: { startIndex: 1, count: 2 },
+    });
+    expect(response).toRespondWithError(
+      expect.objectContaining({
+        code: 4100,
+        message: 'The origin has not been granted access to the account 2.',
+      }),
+    );
+  });
+  it('get ed25519 accounts', async () => {
+    const { request } = await installConnectedSnap();
+
+    expect(
+      await request({
+        method: 'casper_getAccount',
+        params: { keyType: 'ed25519' },
+      }),
+    ).toRespondWith(ED25519_ACCOUNT_0_DESCRIPTOR);
+    expect(
+      await request({
+        method: 'casper_getAccount',
+        params: { addressIndex: 1, keyType: 'ed25519' },
+      }),
+    ).toRespondWith(ED25519_ACCOUNT_1_DESCRIPTOR);
+  });
+  it('rejects an unknown key type', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = await request({
+      method: 'casper_getAccount',
+      params: { keyType: 'sr25519' },
     });
+    expect(response).toRespondWithError(
+      expect.objectContaining({
+        code: -32602,
+        message: 'Invalid params for casper_getAccount.',
+      }),
+    );
   });
   it('get cspr account derived -1', async () => {
     const { request } = await installSnap();
@@ -50,9 +382,2123 @@ describe('onRpcRequest', () => {
       },
     });
     expect(response).toRespondWithError({
-      code: -32603,
-      message: 'Invalid BIP-32 index: Must be a non-negative integer.',
+      code: -32602,
+      message: 'Invalid params for casper_getAccount.',
+      data: expect.objectContaining({
+        method: 'casper_getAccount',
+        errors: [
+          {
+            path: 'addressIndex',
+            message:
+              'Expected a integer between `0` and `2147483647` but received `-1`',
+          },
+        ],
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('rejects an address index past the BIP-44 range', async () => {
+    const { request } = await installSnap();
+
+    const response = await request({
+      method: 'casper_getAccount',
+      params: {
+        addressIndex: 2 ** 31,
+      },
+    });
+    expect(response).toRespondWithError({
+      code: -32602,
+      message: 'Invalid params for casper_getAccount.',
+      data: expect.objectContaining({
+        errors: [
+          {
+            path: 'addressIndex',
+            message: expect.stringContaining('2147483647'),
+          },
+        ],
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('rejects a range of accounts past the BIP-44 range', async () => {
+    const { request } = await installSnap();
+
+    const response = await request({
+      method: 'casper_getAccounts',
+      params: { startIndex: 2 ** 31 - 1, count: 2 },
+    });
+    expect(response).toRespondWithError({
+      code: -32602,
+      message: 'Invalid params for casper_getAccounts.',
+      data: expect.objectContaining({
+        errors: [
+          {
+            path: 'count',
+            message:
+              'Expected the last address index to be at most 2147483647.',
+          },
+        ],
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('rejects a non-integer address index', async () => {
+    const { request } = await installSnap();
+
+    const response = await request({
+      method: 'casper_getAccount',
+      params: {
+        addressIndex: '1',
+      },
+    });
+    expect(response).toRespondWithError({
+      code: -32602,
+      message: 'Invalid params for casper_getAccount.',
+      data: expect.objectContaining({
+        errors: [
+          {
+            path: 'addressIndex',
+            message: 'Expected an integer, but received: "1"',
+          },
+        ],
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('rejects a deploy that is not an object', async () => {
+    const { request } = await installSnap();
+
+    const response = await request({
+      method: 'casper_sign',
+      params: {
+        deployJson: 'deploy',
+      },
+    });
+    expect(response).toRespondWithError({
+      code: -32602,
+      message: 'Invalid params for casper_sign.',
+      data: expect.objectContaining({
+        method: 'casper_sign',
+        errors: [
+          {
+            path: 'deployJson',
+            message: 'Expected an object, but received: "deploy"',
+          },
+        ],
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('rejects a sign request without a deploy', async () => {
+    const { request } = await installSnap();
+
+    const response = await request({
+      method: 'casper_sign',
+      params: {
+        addressIndex: 0,
+      },
+    });
+    expect(response).toRespondWithError({
+      code: -32602,
+      message: 'Invalid params for casper_sign.',
+      data: expect.objectContaining({
+        errors: [
+          {
+            path: 'deployJson',
+            message: 'Expected an object, but received: undefined',
+          },
+        ],
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('rejects a deploy that cannot be parsed', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = await request({
+      method: 'casper_sign',
+      params: {
+        deployJson: { foo: 'bar' },
+      },
+    });
+    expect(response).toRespondWithError({
+      code: 5003,
+      message: 'Unable to convert json into deploy object.',
+      data: expect.objectContaining({ reason: expect.any(String) }),
+      stack: expect.any(String),
+    });
+  });
+  it('rejects a deploy whose hash does not match its content', async () => {
+    const { request } = await installConnectedSnap();
+
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+    deployJson.header.gas_price = 5;
+    const response = await request({
+      method: 'casper_sign',
+      params: { deployJson },
+    });
+    expect(response).toRespondWithError({
+      code: 5005,
+      message:
+        'The deploy hash or body hash does not match the deploy content.',
+      data: expect.objectContaining({ deployHash: deployJson.hash }),
+      stack: expect.any(String),
+    });
+  });
+  it('rejects a deploy for another network than the active one', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = await request({
+      method: 'casper_sign',
+      params: {
+        deployJson: createLegacyDeploy(
+          ACCOUNT_0,
+          new ExecutableDeployItem(),
+          'casper',
+        ),
+      },
+    });
+    expect(response).toRespondWithError({
+      code: 5010,
+      message:
+        'The deploy targets the "casper" network, but this site is using "casper-test".',
+      data: expect.objectContaining({
+        chainName: 'casper',
+        expected: 'casper-test',
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('returns a user rejected error when the deploy is not signed', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_sign',
+      params: {
+        deployJson: createLegacyDeploy(ACCOUNT_0),
+      },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-reject');
+
+    expect(await response).toRespondWithError({
+      code: 4001,
+      message: 'User rejected the request.',
+      data: expect.objectContaining({
+        method: 'casper_sign',
+        deployHash: expect.any(String),
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('paginates long collection arguments', async () => {
+    const { request } = await installConnectedSnap();
+    const session = new ExecutableDeployItem();
+    session.moduleBytes = new ModuleBytes(
+      new Uint8Array([0, 97, 115, 109]),
+      Args.fromMap({
+        values: CLValue.newCLList(
+          CLTypeUInt8,
+          Array.from({ length: 12 }, (_, index) => CLValue.newCLUint8(index)),
+        ),
+      }),
+    );
+
+    const response = request({
+      method: 'casper_sign',
+      params: {
+        deployJson: createLegacyDeploy(ACCOUNT_0, session),
+      },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-page:arguments');
+    const argumentsUi = await response.getInterface();
+    expect(JSON.stringify(argumentsUi.content)).toContain('"label":"[9]"');
+    expect(JSON.stringify(argumentsUi.content)).not.toContain('"label":"[10]"');
+
+    await argumentsUi.clickElement('clvalue-show-more:values');
+    const updatedUi = await response.getInterface();
+    expect(JSON.stringify(updatedUi.content)).toContain('"label":"[11]"');
+    expect(JSON.stringify(updatedUi.content)).not.toContain(
+      'clvalue-show-more:values',
+    );
+
+    await updatedUi.clickElement('clvalue-collapse:values');
+    const collapsedUi = await response.getInterface();
+    expect(JSON.stringify(collapsedUi.content)).not.toContain('"label":"[0]"');
+
+    await collapsedUi.clickElement('deploy-reject');
+    expect(await response).toRespondWithError(
+      expect.objectContaining({ code: 4001 }),
+    );
+  });
+  it('warns about session code in the confirmation', async () => {
+    const { request } = await installConnectedSnap();
+    const session = new ExecutableDeployItem();
+    session.moduleBytes = new ModuleBytes(
+      new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0]),
+      Args.fromMap({}),
+    );
+
+    const response = request({
+      method: 'casper_sign',
+      params: {
+        deployJson: createLegacyDeploy(ACCOUNT_0, session),
+      },
+    });
+    const ui = await response.getInterface();
+    const content = JSON.stringify(ui.content);
+    expect(content).toContain('"variant":"critical"');
+    expect(content).toContain('custom WASM session code');
+    expect(content).toContain('"label":"Session Code Size"');
+    expect(content).toContain(
+      'f6a5dbf080e9c9d7834145653bce4c8cded62e664d7ddcdb5c526f5877006d74',
+    );
+
+    await ui.clickElement('deploy-reject');
+    expect(await response).toRespondWithError(
+      expect.objectContaining({ code: 4001 }),
+    );
+  });
+  it('shows the raw deploy JSON', async () => {
+    const { request } = await installConnectedSnap();
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson },
+    });
+    const ui = await response.getInterface();
+    expect(JSON.stringify(ui.content)).not.toContain('"type":"Copyable"');
+
+    await ui.clickElement('deploy-page:raw');
+    const rawUi = await response.getInterface();
+    expect(JSON.stringify(rawUi.content)).toContain(
+      JSON.stringify(JSON.stringify(deployJson, null, 2)),
+    );
+
+    await rawUi.clickElement('deploy-reject');
+    expect(await response).toRespondWithError(
+      expect.objectContaining({ code: 4001 }),
+    );
+  });
+  it('signs an approved deploy', async () => {
+    const { request } = await installConnectedSnap();
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-approve');
+
+    expect(await response).toRespondWith({
+      deploy: expect.objectContaining({
+        hash: deployJson.hash,
+        approvals: [
+          {
+            signer: ACCOUNT_0,
+            signature: expect.stringMatching(/^02[0-9a-f]{128}$/u),
+          },
+        ],
+      }),
+      signature: expect.stringMatching(/^[0-9a-f]{128}$/u),
+      publicKey: ACCOUNT_0_DESCRIPTOR.publicKey,
+    });
+  });
+  it('signs a deploy with an ed25519 account', async () => {
+    const { request } = await installConnectedSnap();
+    const deployJson = createLegacyDeploy(ED25519_ACCOUNT_0);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson, keyType: 'ed25519' },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-approve');
+
+    expect(await response).toRespondWith({
+      deploy: expect.objectContaining({
+        hash: deployJson.hash,
+        approvals: [
+          {
+            signer: ED25519_ACCOUNT_0,
+            signature: expect.stringMatching(/^01[0-9a-f]{128}$/u),
+          },
+        ],
+      }),
+      signature: expect.stringMatching(/^[0-9a-f]{128}$/u),
+      publicKey: ED25519_ACCOUNT_0_DESCRIPTOR.publicKey,
+    });
+  });
+  it('rejects a message that is not a string', async () => {
+    const { request } = await installSnap();
+
+    const response = await request({
+      method: 'casper_signMessage',
+      params: {
+        message: 42,
+        addressIndex: 0,
+        extra: true,
+      },
+    });
+    expect(response).toRespondWithError({
+      code: -32602,
+      message: 'Invalid params for casper_signMessage.',
+      data: expect.objectContaining({
+        method: 'casper_signMessage',
+        errors: [
+          {
+            path: 'message',
+            message: 'Expected a string, but received: 42',
+          },
+          {
+            path: 'extra',
+            message: 'Expected a value of type `never`, but received: `true`',
+          },
+        ],
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it('returns a user rejected error when the message is not signed', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: {
+        message: 'Hello Casper',
+      },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.cancel();
+
+    expect(await response).toRespondWithError({
+      code: 4001,
+      message: 'User rejected the request.',
+      data: expect.objectContaining({ method: 'casper_signMessage' }),
+      stack: expect.any(String),
+    });
+  });
+  it('signs a message', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: {
+        message: 'Hello Casper',
+      },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    expect(await response).toRespondWith({
+      signature: expect.stringMatching(/^[0-9a-f]{128}$/u),
+      publicKey: ACCOUNT_0_DESCRIPTOR.publicKey,
+    });
+  });
+  it('signs a message with an ed25519 account', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: {
+        message: 'Hello Casper',
+        keyType: 'ed25519',
+      },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    const result = await response;
+    assert('result' in result.response);
+    const { signature } = result.response.result as { signature: string };
+    expect(
+      PublicKey.fromHex(ED25519_ACCOUNT_0).verifySignature(
+        new TextEncoder().encode('Casper Message:\nHello Casper'),
+        // The SDK expects signatures tagged with the algorithm.
+        Conversions.decodeBase16(`01${signature}`),
+      ),
+    ).toBe(true);
+  });
+  it('refuses an account that was not granted', async () => {
+    const { request } = await installSnap();
+
+    const response = await request({
+      method: 'casper_getAccount',
+    });
+    expect(response).toRespondWithError({
+      code: 4100,
+      message: 'The origin has not been granted access to the account 0.',
+      data: expect.objectContaining({ origin: ORIGIN, addressIndex: 0 }),
+      stack: expect.any(String),
+    });
+  });
+  it('connects the accounts selected by the user', async () => {
+    const { request } = await installSnap();
+
+    const response = request({
+      method: 'casper_connect',
+      params: {
+        addressIndices: [0, 1],
+      },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.clickElement('account-1');
+    await ui.ok();
+
+    expect(await response).toRespondWith({
+      accounts: [
+        { addressIndex: 0, publicKey: ACCOUNT_0_DESCRIPTOR.publicKey },
+      ],
+    });
+    expect(
+      await request({
+        method: 'casper_getAccount',
+      }),
+    ).toRespondWith(ACCOUNT_0_DESCRIPTOR);
+    expect(
+      await request({
+        method: 'casper_getAccount',
+        params: {
+          addressIndex: 1,
+        },
+      }),
+    ).toRespondWithError(expect.objectContaining({ code: 4100 }));
+  });
+  it('connects ed25519 accounts separately', async () => {
+    const { request } = await installSnap({
+      options: {
+        state: {
+          connections: {
+            [ORIGIN]: { addressIndices: [0], connectedAt: 0 },
+          },
+        },
+      },
+    });
+
+    const response = request({
+      method: 'casper_connect',
+      params: {
+        addressIndices: [1],
+        keyType: 'ed25519',
+      },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    expect(await response).toRespondWith({
+      accounts: [
+        { addressIndex: 1, publicKey: ED25519_ACCOUNT_1_DESCRIPTOR.publicKey },
+      ],
+    });
+    expect(
+      await request({
+        method: 'casper_getAccount',
+        params: { addressIndex: 1, keyType: 'ed25519' },
+      }),
+    ).toRespondWith(ED25519_ACCOUNT_1_DESCRIPTOR);
+    expect(
+      await request({
+        method: 'casper_getAccount',
+      }),
+    ).toRespondWith(ACCOUNT_0_DESCRIPTOR);
+    expect(
+      await request({
+        method: 'casper_getAccount',
+        params: { keyType: 'ed25519' },
+      }),
+    ).toRespondWithError(expect.objectContaining({ code: 4100 }));
+  });
+  it('returns a user rejected error when the connection is refused', async () => {
+    const { request } = await installSnap();
+
+    const response = request({
+      method: 'casper_connect',
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.cancel();
+
+    expect(await response).toRespondWithError({
+      code: 4001,
+      message: 'User rejected the request.',
+      data: expect.objectContaining({ method: 'casper_connect' }),
+      stack: expect.any(String),
+    });
+  });
+  it('disconnects an origin', async () => {
+    const { request } = await installConnectedSnap();
+
+    expect(await request({ method: 'casper_disconnect' })).toRespondWith(true);
+    expect(await request({ method: 'casper_disconnect' })).toRespondWith(false);
+    expect(
+      await request({
+        method: 'casper_getAccount',
+      }),
+    ).toRespondWithError(expect.objectContaining({ code: 4100 }));
+  });
+  it('revokes the connections selected by the user', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_manageConnections',
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.clickElement('origin-0');
+    await ui.ok();
+
+    expect(await response).toRespondWith({ revoked: 1 });
+    expect(
+      await request({
+        method: 'casper_getAccount',
+      }),
+    ).toRespondWithError(expect.objectContaining({ code: 4100 }));
+  });
+  it('returns the testnet as the default network', async () => {
+    const { request } = await installSnap();
+
+    expect(await request({ method: 'casper_getNetwork' })).toRespondWith({
+      name: 'Testnet',
+      chainName: 'casper-test',
+      nodeUrl: 'https://node.testnet.casper.network/rpc',
+    });
+  });
+  it('switches the network of an origin once approved', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_switchNetwork',
+      params: { chainName: 'casper' },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    expect(await response).toRespondWith(
+      expect.objectContaining({ name: 'Mainnet', chainName: 'casper' }),
+    );
+    expect(await request({ method: 'casper_getNetwork' })).toRespondWith(
+      expect.objectContaining({ chainName: 'casper' }),
+    );
+    expect(
+      await request({
+        method: 'casper_sign',
+        params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+      }),
+    ).toRespondWithError(expect.objectContaining({ code: 5010 }));
+  });
+  it('adds a custom network', async () => {
+    const { request } = await installSnap();
+
+    const response = request({
+      method: 'casper_switchNetwork',
+      params: {
+        chainName: 'casper-net-1',
+        nodeUrl: 'http://localhost:11101/rpc',
+        name: 'NCTL',
+      },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    expect(await response).toRespondWith({
+      name: 'NCTL',
+      chainName: 'casper-net-1',
+      nodeUrl: 'http://localhost:11101/rpc',
+    });
+  });
+  it('returns a user rejected error when the network switch is refused', async () => {
+    const { request } = await installSnap();
+
+    const response = request({
+      method: 'casper_switchNetwork',
+      params: { chainName: 'casper' },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.cancel();
+
+    expect(await response).toRespondWithError({
+      code: 4001,
+      message: 'User rejected the request.',
+      data: expect.objectContaining({ method: 'casper_switchNetwork' }),
       stack: expect.any(String),
     });
+    expect(await request({ method: 'casper_getNetwork' })).toRespondWith(
+      expect.objectContaining({ chainName: 'casper-test' }),
+    );
+  });
+  it('returns the label of a registered account', async () => {
+    const { request } = await installSnap({
+      options: {
+        state: {
+          connections: {
+            [ORIGIN]: { addressIndices: [0], connectedAt: 0 },
+          },
+          accounts: [
+            {
+              addressIndex: 0,
+              keyType: 'secp256k1',
+              label: 'Savings',
+              hidden: false,
+            },
+          ],
+        },
+      },
+    });
+
+    expect(await request({ method: 'casper_getAccount' })).toRespondWith({
+      ...ACCOUNT_0_DESCRIPTOR,
+      label: 'Savings',
+    });
+  });
+  it('manages the account registry', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({ method: 'casper_manageAccounts' });
+    let ui = await response.getInterface();
+    await ui.typeInField('create-label', 'Savings');
+    await ui.clickElement('registry-create-submit');
+    ui = await response.getInterface();
+    await ui.selectInDropdown('keyType', 'ed25519');
+    await ui.typeInField('create-label', '');
+    await ui.clickElement('registry-create-submit');
+    ui = await response.getInterface();
+    await ui.clickElement('registry-up:1');
+    ui = await response.getInterface();
+    await ui.clickElement('registry-toggle:1');
+    ui = await response.getInterface();
+    await ui.clickElement('registry-done');
+
+    expect(await response).toRespondWith(null);
+    expect(await request({ method: 'casper_listAccounts' })).toRespondWith([
+      { ...ED25519_ACCOUNT_0_DESCRIPTOR, label: 'Ed25519 account 0' },
+    ]);
+    expect(await request({ method: 'casper_getAccount' })).toRespondWith({
+      ...ACCOUNT_0_DESCRIPTOR,
+      label: 'Savings',
+    });
+  });
+  it('appends an approval to a partially signed deploy', async () => {
+    const { request } = await installConnectedSnap();
+    const cosigner = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const deploy = Deploy.fromJSON(createLegacyDeploy(ACCOUNT_0));
+    deploy.sign(cosigner);
+    const deployJson = Deploy.toJson(deploy) as DeployJson;
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson },
+    });
+    const ui = await response.getInterface();
+    expect(JSON.stringify(ui.content)).toContain(cosigner.publicKey.toHex());
+    await ui.clickElement('deploy-approve');
+
+    expect(await response).toRespondWith({
+      deploy: expect.objectContaining({
+        hash: deployJson.hash,
+        approvals: [
+          deployJson.approvals[0],
+          {
+            signer: ACCOUNT_0,
+            signature: expect.stringMatching(/^02[0-9a-f]{128}$/u),
+          },
+        ],
+      }),
+      signature: expect.stringMatching(/^[0-9a-f]{128}$/u),
+      publicKey: ACCOUNT_0_DESCRIPTOR.publicKey,
+    });
+  });
+  it('refuses to approve a deploy twice with the same account', async () => {
+    const { request } = await installConnectedSnap();
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-approve');
+    const result = await response;
+    assert('result' in result.response);
+    const { deploy } = result.response.result as { deploy: Json };
+
+    expect(
+      await request({
+        method: 'casper_sign',
+        params: { deployJson: deploy },
+      }),
+    ).toRespondWithError({
+      code: 5011,
+      message: 'The deploy is already approved by this account.',
+      data: expect.objectContaining({
+        deployHash: deployJson.hash,
+        signer: ACCOUNT_0,
+      }),
+      stack: expect.any(String),
+    });
+  });
+  it.each([
+    ['secp256k1', ACCOUNT_0],
+    ['ed25519', ED25519_ACCOUNT_0],
+  ])('verifies a %s message signature', async (keyType, publicKey) => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: { message: 'Hello Casper', keyType },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+    const result = await response;
+    assert('result' in result.response);
+    const { signature } = result.response.result as { signature: string };
+
+    expect(
+      await request({
+        method: 'casper_verifyMessage',
+        params: { publicKey, signature, message: 'Hello Casper' },
+      }),
+    ).toRespondWith({ valid: true });
+    expect(
+      await request({
+        method: 'casper_verifyMessage',
+        params: { publicKey, signature, message: 'Hello Casper!' },
+      }),
+    ).toRespondWith({ valid: false });
+  });
+  it.each([
+    ['secp256k1', ACCOUNT_0],
+    ['ed25519', ED25519_ACCOUNT_0],
+  ])('verifies a %s deploy approval', async (keyType, publicKey) => {
+    const { request } = await installConnectedSnap();
+    const deployJson = createLegacyDeploy(publicKey);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson, keyType },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-approve');
+    const result = await response;
+    assert('result' in result.response);
+    const { deploy } = result.response.result as {
+      deploy: { approvals: { signer: string; signature: string }[] };
+    };
+    const [approval] = deploy.approvals;
+    assert(approval);
+
+    expect(
+      await request({
+        method: 'casper_verifyMessage',
+        params: {
+          publicKey: approval.signer,
+          signature: approval.signature,
+          deployHash: deployJson.hash,
+        },
+      }),
+    ).toRespondWith({ valid: true });
+  });
+  it('signs and verifies a hex encoded message', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: { message: '0xcafe01', encoding: 'hex' },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    expect(JSON.stringify(ui.content)).toContain('Message (hex, 3 bytes)');
+    await ui.ok();
+    const result = await response;
+    assert('result' in result.response);
+    const { signature } = result.response.result as { signature: string };
+
+    expect(
+      await request({
+        method: 'casper_verifyMessage',
+        params: {
+          publicKey: ACCOUNT_0,
+          signature,
+          message: 'yv4B',
+          encoding: 'base64',
+        },
+      }),
+    ).toRespondWith({ valid: true });
+  });
+  it('rejects a message that does not match its encoding', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = await request({
+      method: 'casper_signMessage',
+      params: { message: 'cafe0', encoding: 'hex' },
+    });
+
+    expect(response).toRespondWithError(
+      expect.objectContaining({
+        message: 'Invalid params for casper_signMessage.',
+      }),
+    );
+  });
+  it('refuses to sign an unprefixed message unless blind signing is enabled', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = await request({
+      method: 'casper_signMessage',
+      params: { message: 'ab'.repeat(32), encoding: 'hex', prefix: false },
+    });
+
+    expect(response).toRespondWithError(
+      expect.objectContaining({
+        code: 5014,
+        data: expect.objectContaining({ method: 'casper_signMessage' }),
+      }),
+    );
+  });
+  it('blind signs an unprefixed message when enabled', async () => {
+    const { request } = await installSnap({
+      options: {
+        state: {
+          connections: {
+            [ORIGIN]: { addressIndices: [0], connectedAt: 0 },
+          },
+          settings: { blindSigning: true, nodeQueries: false },
+        },
+      },
+    });
+    const deployHash = 'ab'.repeat(32);
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: { message: deployHash, encoding: 'hex', prefix: false },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    expect(JSON.stringify(ui.content)).toContain('Blind signing');
+    await ui.ok();
+    const result = await response;
+    assert('result' in result.response);
+    const { signature } = result.response.result as { signature: string };
+
+    expect(
+      await request({
+        method: 'casper_verifyMessage',
+        params: {
+          publicKey: ACCOUNT_0,
+          signature: `02${signature}`,
+          deployHash,
+        },
+      }),
+    ).toRespondWith({ valid: true });
+  });
+  it('returns a tagged signature with the public key of the account', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: {
+        message: 'Hello Casper',
+        keyType: 'ed25519',
+        signatureFormat: 'tagged',
+      },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    expect(await response).toRespondWith({
+      signature: expect.stringMatching(/^01[0-9a-f]{128}$/u),
+      publicKey: ED25519_ACCOUNT_0_DESCRIPTOR.publicKey,
+    });
+  });
+  it('returns a compact signature the public key can be recovered from', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: { message: 'Hello Casper', signatureFormat: 'compact' },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+    const result = await response;
+    assert('result' in result.response);
+    const { signature } = result.response.result as { signature: string };
+    const bytes = Conversions.decodeBase16(signature);
+    expect(bytes).toHaveLength(65);
+
+    const recovered = ecdsaRecover(
+      bytes.slice(0, 64),
+      bytes[64] as number,
+      sha256(encodeMessage('Hello Casper')),
+      true,
+    );
+    expect(`02${Conversions.encodeBase16(recovered)}`).toBe(ACCOUNT_0);
+  });
+  it('verifies a compact message signature', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: { message: 'Hello Casper', signatureFormat: 'compact' },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+    const result = await response;
+    assert('result' in result.response);
+    const { signature } = result.response.result as { signature: string };
+
+    expect(
+      await request({
+        method: 'casper_verifyMessage',
+        params: { publicKey: ACCOUNT_0, signature, message: 'Hello Casper' },
+      }),
+    ).toRespondWith({ valid: true });
+    expect(
+      await request({
+        method: 'casper_verifyMessage',
+        params: { publicKey: ACCOUNT_0, signature, message: 'Hello Casper!' },
+      }),
+    ).toRespondWith({ valid: false });
+  });
+  it('refuses compact signatures of ed25519 accounts', async () => {
+    const { request } = await installConnectedSnap();
+
+    expect(
+      await request({
+        method: 'casper_signMessage',
+        params: {
+          message: 'Hello Casper',
+          keyType: 'ed25519',
+          signatureFormat: 'compact',
+        },
+      }),
+    ).toRespondWithError(
+      expect.objectContaining({
+        message: 'Invalid params for casper_signMessage.',
+      }),
+    );
+  });
+  it('returns the signature of a deploy alongside the signed deploy', async () => {
+    const { request } = await installConnectedSnap();
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson, signatureFormat: 'tagged' },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-approve');
+    const result = await response;
+    assert('result' in result.response);
+    const { deploy, signature, publicKey } = result.response.result as {
+      deploy: { approvals: { signer: string; signature: string }[] };
+      signature: string;
+      publicKey: string;
+    };
+
+    expect(publicKey).toBe(ACCOUNT_0_DESCRIPTOR.publicKey);
+    expect(deploy.approvals).toEqual([{ signer: ACCOUNT_0, signature }]);
+  });
+  it('signs in with an account', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signIn',
+      params: {
+        nonce: 'abcdef1234',
+        statement: 'Sign in to the order book.',
+        keyType: 'ed25519',
+      },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    const result = await response;
+    assert('result' in result.response);
+    const { message, signature, publicKey } = result.response.result as {
+      message: string;
+      signature: string;
+      publicKey: string;
+    };
+    expect(publicKey).toBe(ED25519_ACCOUNT_0_DESCRIPTOR.publicKey);
+    expect(message).toMatch(
+      /^metamask\.io wants you to sign in with your Casper account:\n0153954d/u,
+    );
+    expect(message).toContain('URI: https://metamask.io\n');
+    expect(message).toContain('Chain Name: casper-test\n');
+    expect(
+      PublicKey.fromHex(ED25519_ACCOUNT_0).verifySignature(
+        new TextEncoder().encode(`Casper Sign-In:\n${message}`),
+        Conversions.decodeBase16(`01${signature}`),
+      ),
+    ).toBe(true);
+    expect(verifySignIn(message, signature, publicKey)).toBe(true);
+    expect(verifyMessage(message, signature, publicKey)).toBe(false);
+  });
+  it('does not sign in with a message signature', async () => {
+    const { request } = await installConnectedSnap();
+    const message = [
+      'example.com wants you to sign in with your Casper account:',
+      ACCOUNT_0,
+      '',
+      'URI: https://example.com',
+      'Version: 1',
+      'Chain Name: casper-test',
+      'Nonce: abcdef1234',
+      'Issued At: 2026-01-01T12:00:00.000Z',
+    ].join('\n');
+
+    const response = request({
+      method: 'casper_signMessage',
+      params: { message },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    const result = await response;
+    assert('result' in result.response);
+    const { signature } = result.response.result as { signature: string };
+    expect(verifyMessage(message, signature, ACCOUNT_0)).toBe(true);
+    expect(verifySignIn(message, signature, ACCOUNT_0)).toBe(false);
+  });
+  it('refuses to sign in for another domain', async () => {
+    const { request } = await installConnectedSnap();
+
+    expect(
+      await request({
+        method: 'casper_signIn',
+        params: { nonce: 'abcdef1234', domain: 'example.com' },
+      }),
+    ).toRespondWithError({
+      code: 5013,
+      message:
+        'The sign-in request is for "example.com", but it comes from "metamask.io".',
+      data: expect.objectContaining({ domain: 'example.com', origin: ORIGIN }),
+      stack: expect.any(String),
+    });
+  });
+  it('signs typed data', async () => {
+    const { request } = await installConnectedSnap();
+    const typedData = {
+      domain: { name: 'Order book', version: '1', chainName: 'casper-test' },
+      primaryType: 'Order',
+      message: [
+        { name: 'amount', type: 'U512' as const, value: '2500000000' },
+        { name: 'buy', type: 'Bool' as const, value: true },
+      ],
+    };
+
+    const response = request({
+      method: 'casper_signTypedData',
+      params: { typedData, keyType: 'ed25519' },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.ok();
+
+    const result = await response;
+    assert('result' in result.response);
+    const { signature } = result.response.result as { signature: string };
+    expect(
+      PublicKey.fromHex(ED25519_ACCOUNT_0).verifySignature(
+        encodeTypedData(typedData),
+        Conversions.decodeBase16(`01${signature}`),
+      ),
+    ).toBe(true);
+  });
+  it('rejects typed data with an invalid value', async () => {
+    const { request } = await installConnectedSnap();
+
+    expect(
+      await request({
+        method: 'casper_signTypedData',
+        params: {
+          typedData: {
+            domain: {
+              name: 'Order book',
+              version: '1',
+              chainName: 'casper-test',
+            },
+            primaryType: 'Order',
+            message: [{ name: 'amount', type: 'U8', value: '-1' }],
+          },
+        },
+      }),
+    ).toRespondWithError({
+      code: 5012,
+      message: 'Invalid value for the typed data field "amount".',
+      data: expect.objectContaining({ field: 'amount', type: 'U8' }),
+      stack: expect.any(String),
+    });
+  });
+  it('signs a batch of deploys after a single approval', async () => {
+    const { request } = await installConnectedSnap();
+    const transfer = createLegacyDeploy(ACCOUNT_0);
+    const mainnet = createLegacyDeploy(
+      ACCOUNT_0,
+      new ExecutableDeployItem(),
+      'casper',
+    );
+    const session = new ExecutableDeployItem();
+    session.moduleBytes = new ModuleBytes(new Uint8Array(), Args.fromMap({}));
+    const moduleBytes = createLegacyDeploy(ACCOUNT_0, session);
+
+    const response = request({
+      method: 'casper_signBatch',
+      params: { deploys: [transfer, mainnet, moduleBytes] },
+    });
+    let ui = await response.getInterface();
+    await ui.clickElement('batch-item:1');
+    ui = await response.getInterface();
+    await ui.clickElement('batch-summary');
+    ui = await response.getInterface();
+    await ui.clickElement('batch-approve');
+
+    expect(await response).toRespondWith([
+      {
+        deploy: expect.objectContaining({
+          hash: transfer.hash,
+          approvals: [
+            {
+              signer: ACCOUNT_0,
+              signature: expect.stringMatching(/^02[0-9a-f]{128}$/u),
+            },
+          ],
+        }),
+      },
+      {
+        error: {
+          code: 5010,
+          message:
+            'The deploy targets the "casper" network, but this site is using "casper-test".',
+          data: { chainName: 'casper', expected: 'casper-test' },
+        },
+      },
+      {
+        deploy: expect.objectContaining({
+          hash: moduleBytes.hash,
+          approvals: [expect.objectContaining({ signer: ACCOUNT_0 })],
+        }),
+      },
+    ]);
+  });
+  it('returns the errors of a batch without valid deploy', async () => {
+    const { request } = await installConnectedSnap();
+
+    expect(
+      await request({
+        method: 'casper_signBatch',
+        params: { deploys: [{ hash: 'foo' }] },
+      }),
+    ).toRespondWith([
+      {
+        error: expect.objectContaining({
+          code: 5003,
+          message: 'Unable to convert json into deploy object.',
+        }),
+      },
+    ]);
+  });
+  it('returns a user rejected error when the batch is rejected', async () => {
+    const { request } = await installConnectedSnap();
+
+    const response = request({
+      method: 'casper_signBatch',
+      params: { deploys: [createLegacyDeploy(ACCOUNT_0)] },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('batch-reject');
+
+    expect(await response).toRespondWithError(
+      expect.objectContaining({
+        code: 4001,
+        data: expect.objectContaining({ method: 'casper_signBatch' }),
+      }),
+    );
+    expect(await request({ method: 'casper_getHistory' })).toRespondWith({
+      entries: [
+        expect.objectContaining({
+          method: 'casper_signBatch',
+          decision: 'rejected',
+        }),
+      ],
+      total: 1,
+    });
+  });
+  it('records signing requests in the history', async () => {
+    const { request } = await installConnectedSnap();
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+
+    const rejected = request({
+      method: 'casper_sign',
+      params: { deployJson },
+    });
+    const ui = await rejected.getInterface();
+    await ui.clickElement('deploy-reject');
+    await rejected;
+
+    const approved = request({
+      method: 'casper_signMessage',
+      params: { message: 'Hello Casper' },
+    });
+    const dialog = await approved.getInterface();
+    assert('type' in dialog && dialog.type === 'confirmation');
+    await dialog.ok();
+    await approved;
+
+    expect(await request({ method: 'casper_getHistory' })).toRespondWith({
+      entries: [
+        {
+          method: 'casper_signMessage',
+          origin: ORIGIN,
+          account: ACCOUNT_0_DESCRIPTOR.publicKey,
+          timestamp: expect.any(Number),
+          decision: 'approved',
+          deployHash: null,
+          chainName: null,
+          deployType: null,
+          amount: null,
+        },
+        {
+          method: 'casper_sign',
+          origin: ORIGIN,
+          account: ACCOUNT_0_DESCRIPTOR.publicKey,
+          timestamp: expect.any(Number),
+          decision: 'rejected',
+          deployHash: deployJson.hash,
+          chainName: 'casper-test',
+          deployType: 'Transfer',
+          amount: '2500000000',
+        },
+      ],
+      total: 2,
+    });
+  });
+  it('does not record the amount of contract calls', async () => {
+    const { request } = await installConnectedSnap();
+    const session = new ExecutableDeployItem();
+    session.moduleBytes = new ModuleBytes(
+      new Uint8Array([0, 97, 115, 109]),
+      Args.fromMap({ amount: CLValue.newCLUInt512('5000') }),
+    );
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson: createLegacyDeploy(ACCOUNT_0, session) },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-reject');
+    await response;
+
+    expect(await request({ method: 'casper_getHistory' })).toRespondWith({
+      entries: [
+        expect.objectContaining({ method: 'casper_sign', amount: null }),
+      ],
+      total: 1,
+    });
+  });
+  it('only returns the history of the requesting origin', async () => {
+    const { request } = await installSnap({
+      options: {
+        state: {
+          history: [
+            createHistoryEntry('https://other.io'),
+            createHistoryEntry(ORIGIN),
+            createHistoryEntry(ORIGIN),
+            createHistoryEntry(ORIGIN),
+          ],
+        },
+      },
+    });
+
+    expect(
+      await request({
+        method: 'casper_getHistory',
+        params: { offset: 1, limit: 1 },
+      }),
+    ).toRespondWith({ entries: [createHistoryEntry(ORIGIN)], total: 3 });
+  });
+  it('rejects a history page larger than 50 entries', async () => {
+    const { request } = await installSnap();
+
+    expect(
+      await request({ method: 'casper_getHistory', params: { limit: 51 } }),
+    ).toRespondWithError(
+      expect.objectContaining({
+        code: -32602,
+        message: 'Invalid params for casper_getHistory.',
+      }),
+    );
+  });
+  it.each(['secp256k1', 'ed25519'])(
+    'encrypts and decrypts a message for a %s account',
+    async (keyType) => {
+      const { request } = await installConnectedSnap();
+
+      const keyResponse = await request({
+        method: 'casper_getEncryptionPublicKey',
+        params: { keyType },
+      });
+      assert('result' in keyResponse.response);
+      const { publicKey } = keyResponse.response.result as {
+        publicKey: string;
+      };
+      const encryptResponse = await request({
+        method: 'casper_encrypt',
+        params: { publicKey, message: 'Hello Casper' },
+      });
+      assert('result' in encryptResponse.response);
+      const encryptedMessage = encryptResponse.response.result;
+
+      const response = request({
+        method: 'casper_decrypt',
+        params: { encryptedMessage, keyType },
+      });
+      const ui = await response.getInterface();
+      assert('type' in ui && ui.type === 'confirmation');
+      expect(JSON.stringify(ui.content)).toContain(ORIGIN);
+      await ui.ok();
+
+      expect(await response).toRespondWith({ message: 'Hello Casper' });
+    },
+  );
+  it('does not reveal a decrypted message the user rejects', async () => {
+    const { request } = await installConnectedSnap();
+    const keyResponse = await request({
+      method: 'casper_getEncryptionPublicKey',
+    });
+    assert('result' in keyResponse.response);
+    const { publicKey } = keyResponse.response.result as { publicKey: string };
+    const encryptResponse = await request({
+      method: 'casper_encrypt',
+      params: { publicKey, message: 'Hello Casper' },
+    });
+    assert('result' in encryptResponse.response);
+
+    const response = request({
+      method: 'casper_decrypt',
+      params: { encryptedMessage: encryptResponse.response.result },
+    });
+    const ui = await response.getInterface();
+    assert('type' in ui && ui.type === 'confirmation');
+    await ui.cancel();
+
+    expect(await response).toRespondWithError(
+      expect.objectContaining({ code: 4001 }),
+    );
+  });
+  it('refuses to decrypt a message encrypted for another account', async () => {
+    const { request } = await installConnectedSnap();
+    const keyResponse = await request({
+      method: 'casper_getEncryptionPublicKey',
+      params: { addressIndex: 1 },
+    });
+    assert('result' in keyResponse.response);
+    const { publicKey } = keyResponse.response.result as { publicKey: string };
+    const encryptResponse = await request({
+      method: 'casper_encrypt',
+      params: { publicKey, message: 'Hello Casper' },
+    });
+    assert('result' in encryptResponse.response);
+
+    expect(
+      await request({
+        method: 'casper_decrypt',
+        params: { encryptedMessage: encryptResponse.response.result },
+      }),
+    ).toRespondWithError(
+      expect.objectContaining({
+        code: 5015,
+        message: 'The message could not be decrypted with this account.',
+      }),
+    );
+  });
+  it('refuses an envelope of an unknown version', async () => {
+    const { request } = await installConnectedSnap();
+
+    expect(
+      await request({
+        method: 'casper_decrypt',
+        params: {
+          encryptedMessage: {
+            version: 2,
+            algorithm: 'secp256k1-xsalsa20-poly1305',
+            ephemeralPublicKey: ACCOUNT_0.slice(2),
+            nonce: '00'.repeat(24),
+            ciphertext: '00'.repeat(32),
+          },
+        },
+      }),
+    ).toRespondWithError(
+      expect.objectContaining({
+        code: -32602,
+        message: 'Invalid params for casper_decrypt.',
+      }),
+    );
+  });
+  it('shows the balance of the account and its estimate after the deploy', async () => {
+    const node = await startNode(createBalanceHandlers('10000000000'));
+    const { request } = await installSnapWithNode(node.url);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+    });
+    const ui = await response.getInterface();
+    const content = JSON.stringify(ui.content);
+    await ui.clickElement('deploy-reject');
+    await response;
+    await node.close();
+
+    // 10 CSPR minus the 2.5 CSPR transfer and the 0.1 CSPR payment.
+    expect(content).toContain('"label":"Account Balance"');
+    expect(content).toContain('10.0 CSPR');
+    expect(content).toContain('7.4 CSPR');
+    expect(content).not.toContain('cannot afford');
+    /* eslint-disable @typescript-eslint/naming-convention */
+    expect(node.requests).toStrictEqual([
+      { method: 'info_get_status', params: {} },
+      {
+        method: 'state_get_account_info',
+        params: { account_identifier: ACCOUNT_0 },
+      },
+      {
+        method: 'query_balance',
+        params: {
+          purse_identifier: { purse_uref: `uref-${'0a'.repeat(32)}-007` },
+        },
+      },
+    ]);
+    /* eslint-enable @typescript-eslint/naming-convention */
+  });
+  it('flags a deploy the account cannot afford', async () => {
+    const node = await startNode(createBalanceHandlers('1000000000'));
+    const { request } = await installSnapWithNode(node.url);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+    });
+    const ui = await response.getInterface();
+    const content = JSON.stringify(ui.content);
+    await ui.clickElement('deploy-reject');
+    await response;
+    await node.close();
+
+    expect(content).toContain('-1.6 CSPR');
+    expect(content).toContain('The account cannot afford this transaction.');
+  });
+  it('shows the balance as unavailable when the node fails', async () => {
+    const node = await startNode({
+      ...createBalanceHandlers('0'),
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      state_get_account_info: undefined,
+    });
+    const { request } = await installSnapWithNode(node.url);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+    });
+    const ui = await response.getInterface();
+    const content = JSON.stringify(ui.content);
+    await ui.clickElement('deploy-approve');
+    const result = await response;
+    await node.close();
+
+    expect(content).toContain('Unavailable: ');
+    expect(result).toRespondWith(
+      expect.objectContaining({ publicKey: ACCOUNT_0_DESCRIPTOR.publicKey }),
+    );
+  });
+  it('does not query the node unless the user allowed it', async () => {
+    const node = await startNode(createBalanceHandlers('10000000000'));
+    const { request } = await installSnapWithNode(node.url, false);
+
+    const response = request({
+      method: 'casper_sign',
+      params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+    });
+    const ui = await response.getInterface();
+    const content = JSON.stringify(ui.content);
+    await ui.clickElement('deploy-reject');
+    await response;
+    await node.close();
+
+    expect(content).not.toContain('Account Balance');
+    expect(node.requests).toHaveLength(0);
+  });
+  it('signs a deploy and submits it to the node', async () => {
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+    const node = await startNode({
+      /* eslint-disable @typescript-eslint/naming-convention */
+      account_put_deploy: {
+        api_version: '1.5.6',
+        deploy_hash: deployJson.hash,
+      },
+      /* eslint-enable @typescript-eslint/naming-convention */
+    });
+    const { request } = await installSnapWithNode(node.url, false);
+
+    const response = request({
+      method: 'casper_signAndSubmit',
+      params: { deployJson },
+    });
+    const ui = await response.getInterface();
+    const content = JSON.stringify(ui.content);
+    await ui.clickElement('deploy-approve');
+    const result = await response;
+    await node.close();
+
+    expect(content).toContain(node.url);
+    expect(content).toContain('Approve and submit');
+    expect(result).toRespondWith(
+      expect.objectContaining({
+        transactionHash: deployJson.hash,
+        publicKey: ACCOUNT_0_DESCRIPTOR.publicKey,
+      }),
+    );
+    expect(node.requests).toStrictEqual([
+      {
+        method: 'account_put_deploy',
+        params: {
+          deploy: expect.objectContaining({
+            hash: deployJson.hash,
+            approvals: [
+              {
+                signer: ACCOUNT_0,
+                signature: expect.stringMatching(/^02[0-9a-f]{128}$/u),
+              },
+            ],
+          }),
+        },
+      },
+    ]);
+  });
+  it('reports a deploy rejected by the node', async () => {
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+    const node = await startNode({});
+    const { request } = await installSnapWithNode(node.url, false);
+
+    const response = request({
+      method: 'casper_signAndSubmit',
+      params: { deployJson },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-approve');
+    const result = await response;
+    await node.close();
+
+    expect(result).toRespondWithError(
+      expect.objectContaining({
+        code: 5017,
+        message:
+          'The node rejected the transaction: No handler for account_put_deploy.',
+        data: expect.objectContaining({
+          method: 'account_put_deploy',
+          code: -32001,
+          deployHash: deployJson.hash,
+        }),
+      }),
+    );
+  });
+  it('refuses to sign and submit on a network without node URL', async () => {
+    const { request } = await installSnap({
+      options: {
+        state: {
+          connections: {
+            [ORIGIN]: { addressIndices: [0], connectedAt: 0 },
+          },
+          networks: [{ name: 'Testnet', chainName: 'casper-test' }],
+        },
+      },
+    });
+
+    expect(
+      await request({
+        method: 'casper_signAndSubmit',
+        params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+      }),
+    ).toRespondWithError(
+      expect.objectContaining({
+        code: 5016,
+        message: 'The Testnet network has no node URL.',
+      }),
+    );
+  });
+  it('submits a signed deploy', async () => {
+    const node = await startNode({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      account_put_deploy: { api_version: '1.5.6' },
+    });
+    const { request } = await installSnapWithNode(node.url, false);
+    const signResponse = request({
+      method: 'casper_sign',
+      params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+    });
+    const ui = await signResponse.getInterface();
+    await ui.clickElement('deploy-approve');
+    const signed = await signResponse;
+    assert('result' in signed.response);
+    const { deploy } = signed.response.result as { deploy: { hash: string } };
+
+    const response = await request({
+      method: 'casper_submit',
+      params: { deployJson: deploy },
+    });
+    await node.close();
+
+    expect(response).toRespondWith({ transactionHash: deploy.hash });
+    expect(node.requests).toEqual([
+      { method: 'account_put_deploy', params: { deploy } },
+    ]);
+  });
+  it('tracks the submitted deploys', async () => {
+    const deployJson = createLegacyDeploy(ACCOUNT_0);
+    const node = await startNode({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      account_put_deploy: { api_version: '1.5.6' },
+    });
+    const { request } = await installSnapWithNode(node.url, false);
+
+    const response = request({
+      method: 'casper_signAndSubmit',
+      params: { deployJson },
+    });
+    const ui = await response.getInterface();
+    await ui.clickElement('deploy-approve');
+    await response;
+    await node.close();
+
+    expect(await request({ method: 'casper_getTransactions' })).toRespondWith({
+      transactions: [
+        {
+          transactionHash: deployJson.hash,
+          isDeploy: true,
+          origin: ORIGIN,
+          chainName: 'casper-test',
+          nodeUrl: node.url,
+          submittedAt: expect.any(Number),
+          expiresAt:
+            new Date(deployJson.header.timestamp).getTime() + 1_800_000,
+          status: 'pending',
+          errorMessage: null,
+        },
+      ],
+      total: 1,
+    });
+  });
+  it('only returns the transactions submitted by the origin', async () => {
+    const { request } = await installSnap({
+      options: {
+        state: {
+          transactions: [
+            createTrackedTransaction('http://node.io', {
+              origin: 'https://other.io',
+            }),
+          ],
+        },
+      },
+    });
+
+    expect(await request({ method: 'casper_getTransactions' })).toRespondWith({
+      transactions: [],
+      total: 0,
+    });
+  });
+  it('refuses to submit an unsigned deploy', async () => {
+    const { request } = await installSnap();
+
+    expect(
+      await request({
+        method: 'casper_submit',
+        params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+      }),
+    ).toRespondWithError(
+      expect.objectContaining({
+        code: -32602,
+        message: 'Invalid params for casper_submit.',
+      }),
+    );
+  });
+  it('reports a node that cannot be reached', async () => {
+    const node = await startNode({});
+    await node.close();
+    const { request } = await installSnapWithNode(node.url, false);
+    const signResponse = request({
+      method: 'casper_sign',
+      params: { deployJson: createLegacyDeploy(ACCOUNT_0) },
+    });
+    const ui = await signResponse.getInterface();
+    await ui.clickElement('deploy-approve');
+    const signed = await signResponse;
+    assert('result' in signed.response);
+    const { deploy } = signed.response.result as { deploy: Json };
+
+    expect(
+      await request({
+        method: 'casper_submit',
+        params: { deployJson: deploy },
+      }),
+    ).toRespondWithError(
+      expect.objectContaining({
+        code: 5016,
+        message: 'The node did not answer account_put_deploy.',
+        data: expect.objectContaining({ nodeUrl: node.url, code: null }),
+      }),
+    );
+  });
+});
+
+describe('onCronjob', () => {
+  it('notifies the user of an executed deploy', async () => {
+    const node = await startNode({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      info_get_deploy: {
+        /* eslint-disable @typescript-eslint/naming-convention */
+        execution_results: [
+          { block_hash: '0b'.repeat(32), result: { Success: { cost: '1' } } },
+        ],
+        /* eslint-enable @typescript-eslint/naming-convention */
+      },
+    });
+    const { onCronjob, request } = await installSnap({
+      options: {
+        state: { transactions: [createTrackedTransaction(node.url)] },
+      },
+    });
+
+    const response = await onCronjob({ method: 'checkTransactions' });
+    await node.close();
+
+    expect(response.notifications).toEqual([
+      {
+        id: expect.any(String),
+        type: 'inApp',
+        message: 'Deploy 0a0a0a0a...0a0a0a0a was executed on casper-test.',
+      },
+    ]);
+    expect(node.requests).toStrictEqual([
+      {
+        method: 'info_get_deploy',
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        params: { deploy_hash: '0a'.repeat(32) },
+      },
+    ]);
+    expect(await request({ method: 'casper_getTransactions' })).toRespondWith({
+      transactions: [
+        createTrackedTransaction(node.url, {
+          expiresAt: expect.any(Number),
+          status: 'succeeded',
+        }),
+      ],
+      total: 1,
+    });
+  });
+  it('notifies the user in the language of the settings', async () => {
+    const node = await startNode({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      info_get_deploy: {
+        /* eslint-disable @typescript-eslint/naming-convention */
+        execution_results: [
+          { block_hash: '0b'.repeat(32), result: { Success: { cost: '1' } } },
+        ],
+        /* eslint-enable @typescript-eslint/naming-convention */
+      },
+    });
+    const { onCronjob } = await installSnap({
+      options: {
+        state: {
+          transactions: [createTrackedTransaction(node.url)],
+          settings: { language: 'fr' },
+        },
+      },
+    });
+
+    const response = await onCronjob({ method: 'checkTransactions' });
+    await node.close();
+
+    expect(response.notifications).toEqual([
+      {
+        id: expect.any(String),
+        type: 'inApp',
+        message: 'Le deploy 0a0a0a0a...0a0a0a0a a été exécuté sur casper-test.',
+      },
+    ]);
+  });
+  it('notifies the user of a failed transaction with its error', async () => {
+    const node = await startNode({
+      /* eslint-disable @typescript-eslint/naming-convention */
+      info_get_transaction: {
+        execution_info: {
+          block_hash: '0b'.repeat(32),
+          execution_result: { Version2: { error_message: 'Out of gas error' } },
+        },
+      },
+      /* eslint-enable @typescript-eslint/naming-convention */
+    });
+    const { onCronjob, request } = await installSnap({
+      options: {
+        state: {
+          transactions: [
+            createTrackedTransaction(node.url, { isDeploy: false }),
+          ],
+        },
+      },
+    });
+
+    const response = await onCronjob({ method: 'checkTransactions' });
+    await node.close();
+
+    expect(response.notifications).toStrictEqual([
+      expect.objectContaining({
+        message:
+          'Deploy 0a0a0a0a...0a0a0a0a failed on casper-test: Out of gas error',
+      }),
+    ]);
+    expect(node.requests).toStrictEqual([
+      {
+        method: 'info_get_transaction',
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        params: { transaction_hash: { Version1: '0a'.repeat(32) } },
+      },
+    ]);
+    expect(await request({ method: 'casper_getTransactions' })).toRespondWith(
+      expect.objectContaining({
+        transactions: [
+          expect.objectContaining({
+            status: 'failed',
+            errorMessage: 'Out of gas error',
+          }),
+        ],
+      }),
+    );
+  });
+  it('notifies the user of an expired deploy unknown to the node', async () => {
+    const node = await startNode({});
+    const { onCronjob, request } = await installSnap({
+      options: {
+        state: {
+          transactions: [createTrackedTransaction(node.url, { expiresAt: 0 })],
+        },
+      },
+    });
+
+    const response = await onCronjob({ method: 'checkTransactions' });
+    await node.close();
+
+    expect(response.notifications).toStrictEqual([
+      expect.objectContaining({
+        message:
+          'Deploy 0a0a0a0a...0a0a0a0a expired before it was executed on casper-test.',
+      }),
+    ]);
+    expect(await request({ method: 'casper_getTransactions' })).toRespondWith(
+      expect.objectContaining({
+        transactions: [expect.objectContaining({ status: 'expired' })],
+      }),
+    );
+  });
+  it('keeps waiting for a deploy that is not executed yet', async () => {
+    const node = await startNode({
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      info_get_deploy: { execution_info: null },
+    });
+    const { onCronjob, request } = await installSnap({
+      options: {
+        state: { transactions: [createTrackedTransaction(node.url)] },
+      },
+    });
+
+    const response = await onCronjob({ method: 'checkTransactions' });
+    await node.close();
+
+    expect(response.notifications).toStrictEqual([]);
+    expect(await request({ method: 'casper_getTransactions' })).toRespondWith(
+      expect.objectContaining({
+        transactions: [expect.objectContaining({ status: 'pending' })],
+      }),
+    );
+  });
+  it('does not expire a deploy while the node cannot be reached', async () => {
+    const node = await startNode({});
+    await node.close();
+    const { onCronjob, request } = await installSnap({
+      options: {
+        state: {
+          transactions: [createTrackedTransaction(node.url, { expiresAt: 0 })],
+        },
+      },
+    });
+
+    const response = await onCronjob({ method: 'checkTransactions' });
+
+    expect(response.notifications).toStrictEqual([]);
+    expect(await request({ method: 'casper_getTransactions' })).toRespondWith(
+      expect.objectContaining({
+        transactions: [expect.objectContaining({ status: 'pending' })],
+      }),
+    );
+  });
+  it('does not poll settled transactions', async () => {
+    const node = await startNode({});
+    const { onCronjob } = await installSnap({
+      options: {
+        state: {
+          transactions: [
+            createTrackedTransaction(node.url, { status: 'succeeded' }),
+          ],
+        },
+      },
+    });
+
+    const response = await onCronjob({ method: 'checkTransactions' });
+    await node.close();
+
+    expect(response.notifications).toStrictEqual([]);
+    expect(node.requests).toHaveLength(0);
+  });
+});
+
+describe('onHomePage', () => {
+  it('saves the settings', async () => {
+    const { onHomePage, request } = await installSnap();
+
+    const response = await onHomePage();
+    let ui = response.getInterface();
+    await ui.clickElement('home-page:settings');
+    ui = response.getInterface();
+    await ui.selectInDropdown('defaultNetwork', 'casper');
+    await ui.typeInField('maxGasPriceTolerance', '3');
+    await ui.clickElement('home-settings-submit');
+    ui = response.getInterface();
+
+    expect(JSON.stringify(ui.content)).toContain('Settings saved.');
+    expect(await request({ method: 'casper_getNetwork' })).toRespondWith(
+      expect.objectContaining({ chainName: 'casper' }),
+    );
+  });
+  it('fills in the settings missing from an older state', async () => {
+    const { onHomePage } = await installSnap({
+      options: {
+        state: {
+          riskSettings: { amountThreshold: '1000000000' },
+          settings: { blindSigning: true },
+        },
+      },
+    });
+
+    const response = await onHomePage();
+    let ui = response.getInterface();
+    await ui.clickElement('home-page:settings');
+    ui = response.getInterface();
+
+    const content = JSON.stringify(ui.content);
+    expect(content).toContain('"name":"maxGasPriceTolerance","type":"number"');
+    expect(content).toContain('"value":"3"');
+  });
+  it('follows the language of MetaMask', async () => {
+    const { onHomePage } = await installSnap({ options: { locale: 'fr-CA' } });
+
+    const response = await onHomePage();
+    const content = JSON.stringify(response.getInterface().content);
+
+    expect(content).toContain('Paramètres');
+    expect(content).toContain('Clé publique');
+  });
+  it('switches to the language selected in the settings', async () => {
+    const { onHomePage } = await installSnap();
+
+    const response = await onHomePage();
+    let ui = response.getInterface();
+    await ui.clickElement('home-page:settings');
+    ui = response.getInterface();
+    await ui.selectInDropdown('language', 'fr');
+    await ui.clickElement('home-settings-submit');
+    ui = response.getInterface();
+
+    const content = JSON.stringify(ui.content);
+    expect(content).toContain('Paramètres enregistrés.');
+    expect(content).toContain('Langue de MetaMask');
+  });
+  it('rejects invalid settings', async () => {
+    const { onHomePage, request } = await installSnap();
+
+    const response = await onHomePage();
+    let ui = response.getInterface();
+    await ui.clickElement('home-page:settings');
+    ui = response.getInterface();
+    await ui.selectInDropdown('defaultNetwork', 'casper');
+    await ui.typeInField('maxGasPriceTolerance', '0');
+    await ui.clickElement('home-settings-submit');
+    ui = response.getInterface();
+
+    expect(JSON.stringify(ui.content)).toContain(
+      'The maximum gas price must be a positive integer.',
+    );
+    expect(await request({ method: 'casper_getNetwork' })).toRespondWith(
+      expect.objectContaining({ chainName: 'casper-test' }),
+    );
+  });
+  it('pages through the history', async () => {
+    const { onHomePage } = await installSnap({
+      options: {
+        state: {
+          history: Array.from({ length: 12 }, (_value, index) =>
+            createHistoryEntry(`https://site-${index}.io`),
+          ),
+        },
+      },
+    });
+
+    const response = await onHomePage();
+    let ui = response.getInterface();
+    await ui.clickElement('home-page:history');
+    ui = response.getInterface();
+    expect(JSON.stringify(ui.content)).toContain('https://site-9.io');
+    await ui.clickElement('home-history-older');
+    ui = response.getInterface();
+
+    const content = JSON.stringify(ui.content);
+    expect(content).toContain('https://site-11.io');
+    expect(content).not.toContain('https://site-9.io');
+  });
+  it('shows the tracked transactions', async () => {
+    const { onHomePage } = await installSnap({
+      options: {
+        state: {
+          transactions: [
+            createTrackedTransaction('http://node.io', {
+              status: 'failed',
+              errorMessage: 'Out of gas error',
+            }),
+          ],
+        },
+      },
+    });
+
+    const response = await onHomePage();
+    let ui = response.getInterface();
+    await ui.clickElement('home-page:transactions');
+    ui = response.getInterface();
+
+    const content = JSON.stringify(ui.content);
+    expect(content).toContain('Failed');
+    expect(content).toContain('Out of gas error');
+    expect(content).toContain('0a'.repeat(32));
   });
 });
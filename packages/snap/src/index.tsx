@@ -1,317 +1,863 @@
-import { getBIP44AddressKeyDeriver } from '@metamask/key-tree';
-import type { OnRpcRequestHandler } from '@metamask/snaps-sdk';
-import type { SnapComponent } from '@metamask/snaps-sdk/jsx';
-import { Box, Copyable, Heading, Row, Text } from '@metamask/snaps-sdk/jsx';
-import { PublicKey, Transaction } from 'casper-js-sdk';
+import type {
+  Json,
+  OnCronjobHandler,
+  OnHomePageHandler,
+  OnRpcRequestHandler,
+  OnUserInputHandler,
+} from '@metamask/snaps-sdk';
+import {
+  InvalidParamsError,
+  MethodNotFoundError,
+  UserRejectedRequestError,
+} from '@metamask/snaps-sdk';
+import {
+  Bold,
+  Box,
+  Copyable,
+  Heading,
+  Icon,
+  Row,
+  Section,
+  Text,
+} from '@metamask/snaps-sdk/jsx';
+import type { Transaction } from 'casper-js-sdk';
 import { ecdsaSign } from 'ethereum-cryptography/secp256k1-compat';
 import { sha256 } from 'ethereum-cryptography/sha256';
 import * as nacl from 'tweetnacl-ts';
 
+import type { AccountKey, KeyType } from './accounts';
+import {
+  describeAccountKey,
+  getAccountKey,
+  getCSPRAddress,
+  getCSPRAddresses,
+} from './accounts';
+import { estimateBalance } from './balance';
+import type { BatchItem, BatchResult } from './batch';
+import {
+  confirmBatch,
+  createBatchItem,
+  handleBatchConfirmationInput,
+  isBatchConfirmationEvent,
+  toBatchError,
+} from './batch';
+import { confirmDeploy, handleDeployConfirmationInput } from './confirmation';
+import {
+  assertAccountPermitted,
+  connect,
+  disconnect,
+  manageConnections,
+} from './connections';
+import type { EncryptedMessage } from './encryption';
+import {
+  decryptMessage,
+  encryptMessage,
+  getEncryptionAlgorithm,
+  getEncryptionPublicKey,
+} from './encryption';
+import { CasperError, CasperErrorCode } from './errors';
+import {
+  getHistory,
+  getTransactionHistoryDetails,
+  recordHistory,
+} from './history';
+import { createHomePage, handleHomePageInput, isHomePageEvent } from './home';
+import {
+  assertNotApprovedBy,
+  assertTransactionIntegrity,
+  parseTransaction,
+} from './integrity';
+import { assertActiveNetwork, getNetwork, switchNetwork } from './networks';
+import { getNodeUrl, submitTransaction } from './node';
+import {
+  handleAccountManagerInput,
+  isAccountManagerEvent,
+  listAccounts,
+  manageAccounts,
+} from './registry';
+import { analyzeTransaction } from './risk';
+import type { RpcParams } from './schemas';
+import { isRpcMethod, validateParams } from './schemas';
+import type { AccountSignature, SignatureFormat } from './signatures';
+import {
+  assertSignatureFormat,
+  formatSignature,
+  normalizeLowS,
+} from './signatures';
 import {
-  addSignatureAndValidateTransaction,
-  transactionToObject,
-} from './utils';
+  assertSignInNotExpired,
+  buildSignInMessage,
+  getSignInDomain,
+} from './signin';
+import { getState } from './state';
+import {
+  checkTransactions,
+  getTrackedTransactions,
+  trackTransaction,
+} from './tracking';
+import type { TypedData } from './typeddata';
+import { encodeTypedData } from './typeddata';
+import { addSignatureAndValidateTransaction } from './utils';
+import type { MessageOptions } from './verify';
+import {
+  decodeMessage,
+  encodeMessage,
+  encodeSignInMessage,
+  verifyApproval,
+  verifyMessage,
+} from './verify';
 
 /* eslint-disable no-restricted-globals */
 
 /**
- * Get casper address.
+ * Get the private key of an account.
  *
- * @param addressIndex - Address index.
- * @returns The public key hex of the user.
+ * @param addressKey - The derived key of the account.
+ * @param addressIndex - Address index of the account.
+ * @returns The private key.
+ * @throws If the key has no private key.
  */
-async function getCSPRAddress(addressIndex = 0) {
-  const bip44Node = await snap.request({
-    method: 'snap_getBip44Entropy',
-    params: {
-      coinType: 506,
-    },
-  });
-  const bip44Nodeaddr = await getBIP44AddressKeyDeriver(bip44Node);
-  const addressKey = await bip44Nodeaddr(addressIndex);
-  try {
-    return {
-      publicKey: PublicKey.fromBytes(
-        Buffer.from(`02${addressKey.compressedPublicKey.slice(2)}`, 'hex'),
-      ).result.toHex(),
-    };
-  } catch (error: any) {
+function getPrivateKey(addressKey: AccountKey, addressIndex: number) {
+  if (!addressKey.privateKeyBytes) {
+    throw new CasperError(
+      CasperErrorCode.MissingPrivateKey,
+      `No private key associated with the account ${addressIndex}.`,
+      { addressIndex },
+    );
+  }
+  return addressKey.privateKeyBytes;
+}
+
+/**
+ * Sign bytes with the key of an account. Ed25519 keys sign the bytes
+ * themselves, Secp256k1 keys sign their SHA-256 digest.
+ *
+ * @param addressKey - The derived key of the account.
+ * @param bytes - The bytes to sign.
+ * @param addressIndex - Address index of the account.
+ * @returns The signature, without the tag of the algorithm. Secp256k1
+ * signatures are normalized to their low-S form.
+ * @throws If the key has no private key or is not on a supported curve.
+ */
+function signBytes(
+  addressKey: AccountKey,
+  bytes: Uint8Array,
+  addressIndex: number,
+): AccountSignature {
+  const privateKey = getPrivateKey(addressKey, addressIndex);
+  if (addressKey.curve === 'ed25519') {
+    const { secretKey } = nacl.sign_keyPair_fromSeed(privateKey);
     return {
-      error: `${error as string} Unsupported curve. Received ${
-        addressKey.curve
-      }. ${addressKey.compressedPublicKeyBytes.length} ${
-        addressKey.publicKey
-      } ${addressKey.compressedPublicKey.slice(
-        2,
-      )} Only Secp256K1 && Ed25519 are supported.`,
+      curve: 'ed25519',
+      bytes: nacl.sign_detached(bytes, secretKey),
+      recoveryId: null,
     };
   }
+  if (addressKey.curve === 'secp256k1') {
+    const { signature, recid } = ecdsaSign(sha256(bytes), privateKey);
+    return { curve: 'secp256k1', ...normalizeLowS(signature, recid) };
+  }
+  throw new CasperError(
+    CasperErrorCode.UnsupportedCurve,
+    `Unsupported curve : ${
+      addressKey.curve as string
+    }. Only Secp256K1 && Ed25519 are supported.`,
+    { curve: addressKey.curve },
+  );
 }
 
-type PaymentProps = {
-  transaction: Transaction;
-};
+/**
+ * Sign a deploy.
+ *
+ * @param deployJson - JSON formatted deploy.
+ * @param origin - Origin of the request.
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @param signatureFormat - Format of the returned signature.
+ * @param submitTo - URL of the node the deploy is submitted to once signed,
+ * shown in the confirmation.
+ * @returns The signed deploy, the signature and the public key of the account.
+ * @throws If the deploy is invalid, fails the integrity checks or targets
+ * another network than the one of the origin, the user rejects the request or
+ * the account cannot sign.
+ */
+async function sign(
+  deployJson: Record<string, unknown>,
+  origin: string,
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+  signatureFormat: SignatureFormat = 'raw',
+  submitTo: string | null = null,
+) {
+  assertSignatureFormat('casper_sign', keyType, signatureFormat);
+  const transaction = parseTransaction(deployJson);
+  assertTransactionIntegrity(transaction);
+  const network = await assertActiveNetwork(origin, transaction.chainName);
+  const { riskSettings, settings } = await getState();
+  const risk = analyzeTransaction(transaction, riskSettings);
+  const balance = await estimateBalance(network, transaction, settings);
 
-const Payment: SnapComponent<PaymentProps> = ({ transaction }) => {
-  if (transaction.pricingMode.paymentLimited) {
-    return (
-      <Box>
-        <Row label="Payment Type">
-          <Text>Limited</Text>
-        </Row>
-        <Row label="Gas price tolerance">
-          <Text>
-            {transaction.pricingMode.paymentLimited.gasPriceTolerance.toFixed(
-              0,
-            )}
-          </Text>
-        </Row>
-        <Row label="Payment Amount">
-          <Text>
-            {transaction.pricingMode.paymentLimited.paymentAmount.toFixed(0)}
-          </Text>
-        </Row>
-      </Box>
-    );
-  }
-  if (transaction.pricingMode.fixed) {
-    return (
-      <Box>
-        <Row label="Payment Type">
-          <Text>Fixed</Text>
-        </Row>
-        <Row label="Gas price tolerance">
-          <Text>
-            {transaction.pricingMode.fixed.gasPriceTolerance.toFixed(0)}
-          </Text>
-        </Row>
-        <Row label="Additional Computation Power">
-          <Text>
-            {transaction.pricingMode.fixed.additionalComputationFactor.toFixed(
-              0,
-            )}
-          </Text>
-        </Row>
-      </Box>
-    );
+  const addressKey = await getAccountKey(addressIndex, keyType);
+  const { publicKey: publicKeyHex, label } = await describeAccountKey(
+    addressKey,
+    addressIndex,
+    keyType,
+  );
+  assertNotApprovedBy(transaction, publicKeyHex);
+  const deployHash = transaction.hash.toHex();
+  const message = Buffer.from(deployHash, 'hex');
+  const historyEntry = {
+    method: 'casper_sign' as const,
+    origin,
+    account: publicKeyHex,
+    ...getTransactionHistoryDetails(transaction, publicKeyHex),
+  };
+  const response = await confirmDeploy({
+    deployJson: deployJson as Json,
+    signingKey: publicKeyHex,
+    accountLabel: label ?? null,
+    origin,
+    risk,
+    network: network.name,
+    balance,
+    submitTo,
+  });
+  if (!response) {
+    await recordHistory({
+      ...historyEntry,
+      timestamp: Date.now(),
+      decision: 'rejected',
+    });
+    throw new UserRejectedRequestError({
+      method: 'casper_sign',
+      deployHash,
+    }) as unknown as Error;
   }
-  if (transaction.pricingMode.prepaid) {
-    return (
-      <Box>
-        <Row label="Payment Type">
-          <Text>Prepaid</Text>
-        </Row>
-        <Row label="Receipt">
-          <Text>{transaction.pricingMode.prepaid?.receipt.toHex()}</Text>
-        </Row>
-      </Box>
-    );
+
+  const signature = signBytes(addressKey, message, addressIndex);
+  const signed = addSignatureAndValidateTransaction(
+    transaction,
+    signature.bytes,
+    publicKeyHex,
+  );
+  await recordHistory({
+    ...historyEntry,
+    timestamp: Date.now(),
+    decision: 'approved',
+  });
+  return {
+    ...signed,
+    signature: formatSignature(signature, signatureFormat),
+    publicKey: publicKeyHex,
+  };
+}
+
+/**
+ * Sign a deploy and submit it to the node of the active network of the origin.
+ *
+ * @param deployJson - JSON formatted deploy.
+ * @param origin - Origin of the request.
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @param signatureFormat - Format of the returned signature.
+ * @returns The signed deploy, the signature, the public key of the account and
+ * the hash of the submitted transaction.
+ * @throws If the active network has no node URL, the deploy cannot be signed,
+ * or the node cannot be reached or rejects the deploy.
+ */
+async function signAndSubmit(
+  deployJson: Record<string, unknown>,
+  origin: string,
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+  signatureFormat: SignatureFormat = 'raw',
+) {
+  const nodeUrl = getNodeUrl(await getNetwork(origin));
+  const signed = await sign(
+    deployJson,
+    origin,
+    addressIndex,
+    keyType,
+    signatureFormat,
+    nodeUrl,
+  );
+  const transaction = parseTransaction(
+    signed.deploy as Record<string, unknown>,
+  );
+  const transactionHash = await submitTransaction(nodeUrl, transaction);
+  await trackTransaction(transaction, nodeUrl, origin);
+  return { ...signed, transactionHash };
+}
+
+/**
+ * Submit a signed deploy to the node of the active network of the origin.
+ *
+ * @param deployJson - JSON formatted signed deploy.
+ * @param origin - Origin of the request.
+ * @returns The hash of the submitted transaction.
+ * @throws If the deploy is invalid or unsigned, fails the integrity checks or
+ * targets another network than the one of the origin, the network has no node
+ * URL, or the node cannot be reached or rejects the deploy.
+ */
+async function submit(deployJson: Record<string, unknown>, origin: string) {
+  const transaction = parseTransaction(deployJson);
+  assertTransactionIntegrity(transaction);
+  const network = await assertActiveNetwork(origin, transaction.chainName);
+  if (transaction.approvals.length === 0) {
+    throw new InvalidParamsError('Invalid params for casper_submit.', {
+      method: 'casper_submit',
+      errors: [
+        {
+          path: 'deployJson.approvals',
+          message: 'Expected a signed deploy.',
+        },
+      ],
+    }) as unknown as Error;
   }
+  const nodeUrl = getNodeUrl(network);
+  const transactionHash = await submitTransaction(nodeUrl, transaction);
+  await trackTransaction(transaction, nodeUrl, origin);
+  return { transactionHash };
+}
 
-  return (
-    <Row label="Payment Type">
-      <Text>Not supported</Text>
-    </Row>
+/**
+ * Sign a batch of deploys after a single approval. Deploys failing validation
+ * are reported in place and left out of the confirmation.
+ *
+ * @param deploys - JSON formatted deploys.
+ * @param origin - Origin of the request.
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @returns The result of each deploy, in the order of the request.
+ * @throws If the user rejects the batch or the account cannot sign.
+ */
+async function signBatch(
+  deploys: Record<string, unknown>[],
+  origin: string,
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+) {
+  const { riskSettings } = await getState();
+  const network = await getNetwork(origin);
+  // The key is derived once for the whole batch.
+  const addressKey = await getAccountKey(addressIndex, keyType);
+  const { publicKey: publicKeyHex, label } = await describeAccountKey(
+    addressKey,
+    addressIndex,
+    keyType,
   );
-};
+
+  const results: BatchResult[] = [];
+  const items: BatchItem[] = [];
+  const transactions: Transaction[] = [];
+  for (const [index, deployJson] of deploys.entries()) {
+    try {
+      const transaction = parseTransaction(deployJson);
+      assertTransactionIntegrity(transaction);
+      await assertActiveNetwork(origin, transaction.chainName);
+      assertNotApprovedBy(transaction, publicKeyHex);
+      items.push(
+        createBatchItem(
+          index,
+          deployJson as Json,
+          transaction,
+          publicKeyHex,
+          analyzeTransaction(transaction, riskSettings),
+        ),
+      );
+      transactions.push(transaction);
+    } catch (error) {
+      results[index] = toBatchError(error);
+    }
+  }
+  if (items.length === 0) {
+    return results;
+  }
+
+  const response = await confirmBatch({
+    items,
+    signingKey: publicKeyHex,
+    accountLabel: label ?? null,
+    origin,
+    network: network.name,
+  });
+  for (const [position, transaction] of transactions.entries()) {
+    const item = items[position] as BatchItem;
+    if (response) {
+      const signature = signBytes(
+        addressKey,
+        transaction.hash.toBytes(),
+        addressIndex,
+      );
+      results[item.index] = addSignatureAndValidateTransaction(
+        transaction,
+        signature.bytes,
+        publicKeyHex,
+      );
+    }
+    await recordHistory({
+      method: 'casper_signBatch',
+      origin,
+      account: publicKeyHex,
+      ...getTransactionHistoryDetails(transaction, publicKeyHex),
+      timestamp: Date.now(),
+      decision: response ? 'approved' : 'rejected',
+    });
+  }
+  if (!response) {
+    throw new UserRejectedRequestError({
+      method: 'casper_signBatch',
+    }) as unknown as Error;
+  }
+  return results;
+}
 
 /**
- * Displays a prompt to the user in the MetaMask UI.
+ * Sign a message. Messages are prefixed so that their signature can never be a
+ * valid deploy approval, unless the user enabled blind signing and the site
+ * asks for the raw bytes to be signed.
  *
- * @param transaction - Transaction object that will be parsed to display the content of if.
- * @param signingKey - Hex encoded public key address.
+ * @param message - Message.
  * @param origin - Origin of the request.
- * @returns `true` if the user accepted the confirmation,
- * and `false` otherwise.
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @param options - How the message is encoded and signed.
+ * @param options.encoding - How the message is encoded.
+ * @param options.prefix - Whether to prefix the message before signing it.
+ * @param signatureFormat - Format of the returned signature.
+ * @returns The hex encoded signature and the public key of the account.
+ * @throws If the message is not validly encoded, blind signing is disabled
+ * for an unprefixed message, the user rejects the request or the account
+ * cannot sign.
  */
-async function promptUserDeployInfo(
-  transaction: Transaction,
-  signingKey: string,
+async function signMessage(
+  message: string,
   origin: string,
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+  { encoding = 'utf8', prefix = true }: MessageOptions = {},
+  signatureFormat: SignatureFormat = 'raw',
 ) {
-  const deployInfo = transactionToObject(transaction, signingKey);
-  return await snap.request({
+  assertSignatureFormat('casper_signMessage', keyType, signatureFormat);
+  const decoded = decodeMessage(message, encoding);
+  if (!decoded) {
+    throw new InvalidParamsError('Invalid params for casper_signMessage.', {
+      method: 'casper_signMessage',
+      errors: [
+        { path: 'message', message: `Expected a ${encoding} encoded message.` },
+      ],
+    }) as unknown as Error;
+  }
+  const { settings } = await getState();
+  if (!prefix && !settings.blindSigning) {
+    throw new CasperError(
+      CasperErrorCode.BlindSigningDisabled,
+      'Blind signing is disabled. The user can enable it in the snap settings.',
+      { method: 'casper_signMessage' },
+    );
+  }
+
+  const addressKey = await getAccountKey(addressIndex, keyType);
+  const messageBytes = encodeMessage(decoded, prefix);
+  const { publicKey: publicKeyHex, label } = await describeAccountKey(
+    addressKey,
+    addressIndex,
+    keyType,
+  );
+  const response = await snap.request({
     method: 'snap_dialog',
     params: {
       type: 'confirmation',
       content: (
         <Box>
-          <Heading>Sign {deployInfo.deployType}</Heading>
+          <Heading>{prefix ? 'Sign message' : 'Blind signing'}</Heading>
+          {prefix ? null : (
+            <Section>
+              <Text color="error">
+                <Icon name="danger" />{' '}
+                <Bold>This site asks you to sign raw bytes.</Bold>
+              </Text>
+              <Text color="error">
+                The bytes are signed without the Casper message prefix, so they
+                may be a deploy or transaction hash. Signing them can approve a
+                transfer of all your funds. Only continue if you know exactly
+                what these bytes are.
+              </Text>
+            </Section>
+          )}
           <Row label="Request origin">
             <Text>{origin}</Text>
           </Row>
-          <Row label="Deploy Hash">
-            <Text>{deployInfo.deployHash}</Text>
-          </Row>
+          {label ? (
+            <Row label="Signing Account">
+              <Text>{label}</Text>
+            </Row>
+          ) : null}
           <Row label="Signing Key">
-            <Text>{deployInfo.signingKey}</Text>
-          </Row>
-          <Row label="Account">
-            <Text>{deployInfo.account ?? ''}</Text>
-          </Row>
-          <Row label="Body Hash">
-            <Text>{deployInfo.bodyHash ?? ''}</Text>
-          </Row>
-          <Row label="Chain Name">
-            <Text>{deployInfo.chainName}</Text>
-          </Row>
-          <Row label="Timestamp">
-            <Text>{deployInfo.timestamp}</Text>
+            <Text>{publicKeyHex}</Text>
           </Row>
-          <Payment transaction={transaction} />
-          <Heading>Deploy arguments</Heading>
-          {Object.entries(deployInfo.deployArgs).map((arg: any) => (
-            <Row label={arg[0]}>
-              {Array.isArray(arg[1]) ? (
-                arg[1].map((v: any) => <Text>{v}</Text>)
-              ) : (
-                <Text>{arg[1]}</Text>
-              )}
-            </Row>
-          ))}
+          <Text>
+            {encoding === 'utf8'
+              ? 'Message'
+              : `Message (hex, ${decoded.length} bytes)`}
+          </Text>
+          <Copyable
+            value={
+              encoding === 'utf8'
+                ? message
+                : Buffer.from(decoded).toString('hex')
+            }
+          />
         </Box>
       ),
     },
   });
+
+  const historyEntry = {
+    method: 'casper_signMessage' as const,
+    origin,
+    account: publicKeyHex,
+    deployHash: null,
+    chainName: null,
+    deployType: null,
+    amount: null,
+  };
+  if (!response) {
+    await recordHistory({
+      ...historyEntry,
+      timestamp: Date.now(),
+      decision: 'rejected',
+    });
+    throw new UserRejectedRequestError({
+      method: 'casper_signMessage',
+    }) as unknown as Error;
+  }
+
+  const signature = signBytes(addressKey, messageBytes, addressIndex);
+
+  await recordHistory({
+    ...historyEntry,
+    timestamp: Date.now(),
+    decision: 'approved',
+  });
+  return {
+    signature: formatSignature(signature, signatureFormat),
+    publicKey: publicKeyHex,
+  };
 }
 
 /**
- * Sign a deploy.
+ * Sign in to a site with an account. The sign-in message is built by the snap
+ * from the real origin of the request, and signed like a message.
  *
- * @param deployJson - JSON formatted deploy.
  * @param origin - Origin of the request.
- * @param addressIndex - Address index.
+ * @param request - The sign-in request.
+ * @returns The sign-in message, the hex encoded signature and the checksummed
+ * public key of the account.
+ * @throws If the request is for another domain or has expired, the user
+ * rejects it or the account cannot sign.
  */
-async function sign(deployJson: object, origin: string, addressIndex = 0) {
-  const publicKeyHex = (await getCSPRAddress(addressIndex)).publicKey;
-  if (!publicKeyHex) {
-    return { error: `Unable to get public key at index ${addressIndex}.` };
-  }
-  try {
-    const transaction = Transaction.fromJson(deployJson);
-    const deployHash = transaction.hash.toHex();
-    const bip44Node = await snap.request({
-      method: 'snap_getBip44Entropy',
-      params: {
-        coinType: 506,
-      },
-    });
-    const message = Buffer.from(deployHash, 'hex');
-    const bip44Nodeaddr = await getBIP44AddressKeyDeriver(bip44Node);
-    const addressKey = await bip44Nodeaddr(addressIndex);
-    const response = await promptUserDeployInfo(
-      transaction,
-      publicKeyHex,
-      origin,
-    );
-    if (!response) {
-      return false;
-    }
-
-    if (addressKey.privateKeyBytes) {
-      if (addressKey.curve === 'ed25519') {
-        const signature = Buffer.from(
-          nacl.sign_detached(message, addressKey.privateKeyBytes),
-        );
-        return addSignatureAndValidateTransaction(
-          transaction,
-          signature,
-          publicKeyHex,
-        );
-      }
+async function signIn(origin: string, request: RpcParams<'casper_signIn'>) {
+  const domain = getSignInDomain(origin, request.domain);
+  assertSignInNotExpired(request);
+  const {
+    addressIndex = 0,
+    keyType = 'secp256k1',
+    signatureFormat = 'raw',
+  } = request;
+  assertSignatureFormat('casper_signIn', keyType, signatureFormat);
+  const network = await getNetwork(origin);
+  const addressKey = await getAccountKey(addressIndex, keyType);
+  const { publicKey: publicKeyHex, label } = await describeAccountKey(
+    addressKey,
+    addressIndex,
+    keyType,
+  );
+  const message = buildSignInMessage({
+    domain,
+    publicKey: publicKeyHex,
+    statement: request.statement,
+    uri: origin,
+    chainName: network.chainName,
+    nonce: request.nonce,
+    issuedAt: new Date().toISOString(),
+    expirationTime: request.expirationTime,
+    resources: request.resources,
+  });
+  const response = await snap.request({
+    method: 'snap_dialog',
+    params: {
+      type: 'confirmation',
+      content: (
+        <Box>
+          <Heading>Sign in to {domain}</Heading>
+          <Text>
+            This site asks you to prove that you own this account. Signing in
+            does not allow it to move funds.
+          </Text>
+          <Row label="Request origin">
+            <Text>{origin}</Text>
+          </Row>
+          {label ? (
+            <Row label="Signing Account">
+              <Text>{label}</Text>
+            </Row>
+          ) : null}
+          <Row label="Signing Key">
+            <Text>{publicKeyHex}</Text>
+          </Row>
+          <Row label="Network">
+            <Text>{network.name}</Text>
+          </Row>
+          {request.statement ? (
+            <Row label="Statement">
+              <Text>{request.statement}</Text>
+            </Row>
+          ) : null}
+          {request.expirationTime ? (
+            <Row label="Expires At">
+              <Text>{request.expirationTime}</Text>
+            </Row>
+          ) : null}
+          <Text>Message</Text>
+          <Copyable value={message} />
+        </Box>
+      ),
+    },
+  });
 
-      if (addressKey.curve === 'secp256k1') {
-        const res = ecdsaSign(
-          sha256(Buffer.from(message)),
-          addressKey.privateKeyBytes,
-        );
-        const signature = Buffer.from(res.signature);
-        return addSignatureAndValidateTransaction(
-          transaction,
-          signature,
-          publicKeyHex,
-        );
-      }
-      return {
-        error: `Unsupported curve : ${addressKey.curve}. Only Secp256K1 && Ed25519 are supported.`,
-      };
-    }
-  } catch (error) {
-    return {
-      error: `${JSON.stringify(
-        error,
-      )} ${error} Unable to convert json into deploy object.`,
-    };
+  const historyEntry = {
+    method: 'casper_signIn' as const,
+    origin,
+    account: publicKeyHex,
+    deployHash: null,
+    chainName: network.chainName,
+    deployType: null,
+    amount: null,
+  };
+  if (!response) {
+    await recordHistory({
+      ...historyEntry,
+      timestamp: Date.now(),
+      decision: 'rejected',
+    });
+    throw new UserRejectedRequestError({
+      method: 'casper_signIn',
+    }) as unknown as Error;
   }
 
+  const signature = signBytes(
+    addressKey,
+    encodeSignInMessage(message),
+    addressIndex,
+  );
+  await recordHistory({
+    ...historyEntry,
+    timestamp: Date.now(),
+    decision: 'approved',
+  });
   return {
-    error: `No private key associated with the account ${addressIndex}.`,
+    message,
+    signature: formatSignature(signature, signatureFormat),
+    publicKey: publicKeyHex,
   };
 }
 
 /**
- * Sign a message.
+ * Sign a typed data payload. The payload is encoded before the dialog is
+ * shown, so that a payload with invalid values is never presented to the user.
  *
- * @param message - Message.
+ * @param typedData - The typed data payload.
  * @param origin - Origin of the request.
  * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @param signatureFormat - Format of the returned signature.
+ * @returns The hex encoded signature and the public key of the account.
+ * @throws If a value does not match the type of its field, the domain targets
+ * another network than the one of the origin, the user rejects the request or
+ * the account cannot sign.
  */
-async function signMessage(message: string, origin: string, addressIndex = 0) {
-  const bip44Node = await snap.request({
-    method: 'snap_getBip44Entropy',
-    params: {
-      coinType: 506,
-    },
-  });
-  const bip44Nodeaddr = await getBIP44AddressKeyDeriver(bip44Node);
-  const addressKey = await bip44Nodeaddr(addressIndex);
-  const messageBytes = Uint8Array.from(
-    Buffer.from(`Casper Message:\n${message}`),
+async function signTypedData(
+  typedData: TypedData,
+  origin: string,
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+  signatureFormat: SignatureFormat = 'raw',
+) {
+  assertSignatureFormat('casper_signTypedData', keyType, signatureFormat);
+  const bytes = encodeTypedData(typedData);
+  const network = await assertActiveNetwork(origin, typedData.domain.chainName);
+  const addressKey = await getAccountKey(addressIndex, keyType);
+  const { publicKey: publicKeyHex, label } = await describeAccountKey(
+    addressKey,
+    addressIndex,
+    keyType,
   );
-  const publicKeyHex = (await getCSPRAddress(addressIndex)).publicKey;
+  const { domain, primaryType, message } = typedData;
   const response = await snap.request({
     method: 'snap_dialog',
     params: {
       type: 'confirmation',
       content: (
         <Box>
-          <Heading>Sign message</Heading>
+          <Heading>Sign {primaryType}</Heading>
           <Row label="Request origin">
-            <Copyable value={origin}></Copyable>
+            <Text>{origin}</Text>
           </Row>
+          {label ? (
+            <Row label="Signing Account">
+              <Text>{label}</Text>
+            </Row>
+          ) : null}
           <Row label="Signing Key">
-            <Copyable value={publicKeyHex ?? ''}></Copyable>
-          </Row>
-          <Row label="Message">
-            <Copyable value={message}></Copyable>
+            <Text>{publicKeyHex}</Text>
           </Row>
+          <Section>
+            <Row label="App">
+              <Text>{domain.name}</Text>
+            </Row>
+            <Row label="Version">
+              <Text>{domain.version}</Text>
+            </Row>
+            <Row label="Network">
+              <Text>{network.name}</Text>
+            </Row>
+            {domain.verifyingContract ? (
+              <Row label="Verifying Contract">
+                <Text>{domain.verifyingContract}</Text>
+              </Row>
+            ) : null}
+          </Section>
+          <Section>
+            {message.map((field) => (
+              <Row label={field.name}>
+                <Text>{String(field.value)}</Text>
+              </Row>
+            ))}
+          </Section>
         </Box>
       ),
     },
   });
 
+  const historyEntry = {
+    method: 'casper_signTypedData' as const,
+    origin,
+    account: publicKeyHex,
+    deployHash: null,
+    chainName: domain.chainName,
+    deployType: null,
+    amount: null,
+  };
   if (!response) {
-    return false;
+    await recordHistory({
+      ...historyEntry,
+      timestamp: Date.now(),
+      decision: 'rejected',
+    });
+    throw new UserRejectedRequestError({
+      method: 'casper_signTypedData',
+    }) as unknown as Error;
   }
 
-  if (addressKey.privateKeyBytes) {
-    if (addressKey.curve === 'ed25519') {
-      return {
-        signature: Buffer.from(
-          nacl.sign_detached(messageBytes, addressKey.privateKeyBytes),
-        ).toString('hex'),
-      };
-    }
+  const signature = signBytes(addressKey, bytes, addressIndex);
+  await recordHistory({
+    ...historyEntry,
+    timestamp: Date.now(),
+    decision: 'approved',
+  });
+  return {
+    signature: formatSignature(signature, signatureFormat),
+    publicKey: publicKeyHex,
+  };
+}
 
-    if (addressKey.curve === 'secp256k1') {
-      const res = ecdsaSign(sha256(messageBytes), addressKey.privateKeyBytes);
-      return { signature: Buffer.from(res.signature).toString('hex') };
-    }
-    return {
-      error: `Unsupported curve : ${addressKey.curve}. Only Secp256K1 && Ed25519 are supported.`,
-    };
+/**
+ * Get the encryption public key of an account, for other users to encrypt
+ * messages for it.
+ *
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @returns The hex encoded encryption public key and the encryption algorithm.
+ * @throws If the account has no private key.
+ */
+async function getAccountEncryptionPublicKey(
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+) {
+  const addressKey = await getAccountKey(addressIndex, keyType);
+  return {
+    publicKey: getEncryptionPublicKey(
+      getPrivateKey(addressKey, addressIndex),
+      keyType,
+    ),
+    algorithm: getEncryptionAlgorithm(keyType),
+  };
+}
+
+/**
+ * Decrypt a message encrypted for an account, once the user agrees to reveal
+ * it to the requesting origin.
+ *
+ * @param encryptedMessage - The encrypted message.
+ * @param origin - Origin of the request.
+ * @param addressIndex - Address index.
+ * @param keyType - Key type of the account.
+ * @returns The decrypted message.
+ * @throws If the message was not encrypted for the account, the user rejects
+ * the request or the account has no private key.
+ */
+async function decrypt(
+  encryptedMessage: EncryptedMessage,
+  origin: string,
+  addressIndex = 0,
+  keyType: KeyType = 'secp256k1',
+) {
+  const addressKey = await getAccountKey(addressIndex, keyType);
+  const message = decryptMessage(
+    encryptedMessage,
+    getPrivateKey(addressKey, addressIndex),
+    keyType,
+  );
+  const { publicKey: publicKeyHex, label } = await describeAccountKey(
+    addressKey,
+    addressIndex,
+    keyType,
+  );
+  const response = await snap.request({
+    method: 'snap_dialog',
+    params: {
+      type: 'confirmation',
+      content: (
+        <Box>
+          <Heading>Decrypt message</Heading>
+          <Text>
+            This site asks to read a message encrypted for your account.
+            Approving reveals the message below to the site.
+          </Text>
+          <Row label="Request origin">
+            <Text>{origin}</Text>
+          </Row>
+          {label ? (
+            <Row label="Account">
+              <Text>{label}</Text>
+            </Row>
+          ) : null}
+          <Row label="Public Key">
+            <Text>{publicKeyHex}</Text>
+          </Row>
+          <Text>Message</Text>
+          <Copyable value={message} />
+        </Box>
+      ),
+    },
+  });
+  if (!response) {
+    throw new UserRejectedRequestError({
+      method: 'casper_decrypt',
+    }) as unknown as Error;
   }
-  return { error: 'No private key associated with the account.' };
+  return { message };
 }
 
 /**
@@ -321,29 +867,262 @@ async function signMessage(message: string, origin: string, addressIndex = 0) {
  * @param args.origin - The origin of the request, e.g., the website that
  * invoked the snap.
  * @param args.request - A validated JSON-RPC request object.
- * @returns The result of `snap_dialog`.
- * @throws If the request method is not valid for this snap.
+ * @returns The result of the requested method.
+ * @throws A `MethodNotFoundError` if the request method is not valid for this
+ * snap.
  */
 export const onRpcRequest: OnRpcRequestHandler = async ({
   origin,
   request,
 }) => {
+  if (!isRpcMethod(request.method)) {
+    throw new MethodNotFoundError({
+      method: request.method,
+    }) as unknown as Error;
+  }
+
   switch (request.method) {
-    case 'casper_getAccount':
-      return getCSPRAddress(request?.params?.addressIndex);
-    case 'casper_sign':
-      return sign(
-        request?.params?.deployJson,
+    case 'casper_connect': {
+      const { addressIndices = [0], keyType } = validateParams(
+        request.method,
+        request.params,
+      );
+      return connect(origin, addressIndices, keyType);
+    }
+    case 'casper_disconnect':
+      validateParams(request.method, request.params);
+      return disconnect(origin);
+    case 'casper_manageConnections':
+      validateParams(request.method, request.params);
+      return manageConnections();
+    case 'casper_getAccount': {
+      const { addressIndex = 0, keyType } = validateParams(
+        request.method,
+        request.params,
+      );
+      await assertAccountPermitted(origin, addressIndex, keyType);
+      return getCSPRAddress(addressIndex, keyType);
+    }
+    case 'casper_getAccounts': {
+      const {
+        startIndex = 0,
+        count,
+        keyType,
+      } = validateParams(request.method, request.params);
+      for (let index = startIndex; index < startIndex + count; index++) {
+        await assertAccountPermitted(origin, index, keyType);
+      }
+      return getCSPRAddresses(startIndex, count, keyType);
+    }
+    case 'casper_listAccounts':
+      validateParams(request.method, request.params);
+      return listAccounts(origin);
+    case 'casper_manageAccounts':
+      validateParams(request.method, request.params);
+      return manageAccounts();
+    case 'casper_sign': {
+      const {
+        deployJson,
+        addressIndex = 0,
+        keyType,
+        signatureFormat,
+      } = validateParams(request.method, request.params);
+      await assertAccountPermitted(origin, addressIndex, keyType);
+      return sign(deployJson, origin, addressIndex, keyType, signatureFormat);
+    }
+    case 'casper_signAndSubmit': {
+      const {
+        deployJson,
+        addressIndex = 0,
+        keyType,
+        signatureFormat,
+      } = validateParams(request.method, request.params);
+      await assertAccountPermitted(origin, addressIndex, keyType);
+      return signAndSubmit(
+        deployJson,
         origin,
-        request?.params?.addressIndex,
+        addressIndex,
+        keyType,
+        signatureFormat,
       );
-    case 'casper_signMessage':
+    }
+    case 'casper_submit': {
+      const { deployJson } = validateParams(request.method, request.params);
+      return submit(deployJson, origin);
+    }
+    case 'casper_signBatch': {
+      const {
+        deploys,
+        addressIndex = 0,
+        keyType,
+      } = validateParams(request.method, request.params);
+      await assertAccountPermitted(origin, addressIndex, keyType);
+      return signBatch(deploys, origin, addressIndex, keyType);
+    }
+    case 'casper_signMessage': {
+      const {
+        message,
+        addressIndex = 0,
+        keyType,
+        encoding,
+        prefix,
+        signatureFormat,
+      } = validateParams(request.method, request.params);
+      await assertAccountPermitted(origin, addressIndex, keyType);
       return signMessage(
-        request?.params?.message,
+        message,
+        origin,
+        addressIndex,
+        keyType,
+        { encoding, prefix },
+        signatureFormat,
+      );
+    }
+    case 'casper_signIn': {
+      const params = validateParams(request.method, request.params);
+      await assertAccountPermitted(
+        origin,
+        params.addressIndex ?? 0,
+        params.keyType,
+      );
+      return signIn(origin, params);
+    }
+    case 'casper_signTypedData': {
+      const {
+        typedData,
+        addressIndex = 0,
+        keyType,
+        signatureFormat,
+      } = validateParams(request.method, request.params);
+      await assertAccountPermitted(origin, addressIndex, keyType);
+      return signTypedData(
+        typedData,
         origin,
-        request?.params?.addressIndex,
+        addressIndex,
+        keyType,
+        signatureFormat,
       );
+    }
+    case 'casper_verifyMessage': {
+      const params = validateParams(request.method, request.params);
+      const valid =
+        'message' in params
+          ? verifyMessage(params.message, params.signature, params.publicKey, {
+              encoding: params.encoding,
+              prefix: params.prefix,
+            })
+          : verifyApproval(params.deployHash, {
+              signer: params.publicKey,
+              signature: params.signature,
+            });
+      return { valid };
+    }
+    case 'casper_getEncryptionPublicKey': {
+      const { addressIndex = 0, keyType } = validateParams(
+        request.method,
+        request.params,
+      );
+      await assertAccountPermitted(origin, addressIndex, keyType);
+      return getAccountEncryptionPublicKey(addressIndex, keyType);
+    }
+    case 'casper_encrypt': {
+      const { publicKey, message } = validateParams(
+        request.method,
+        request.params,
+      );
+      return encryptMessage(message, publicKey);
+    }
+    case 'casper_decrypt': {
+      const {
+        encryptedMessage,
+        addressIndex = 0,
+        keyType,
+      } = validateParams(request.method, request.params);
+      await assertAccountPermitted(origin, addressIndex, keyType);
+      return decrypt(encryptedMessage, origin, addressIndex, keyType);
+    }
+    case 'casper_getNetwork':
+      validateParams(request.method, request.params);
+      return getNetwork(origin);
+    case 'casper_switchNetwork':
+      return switchNetwork(
+        origin,
+        validateParams(request.method, request.params),
+      );
+    case 'casper_getHistory': {
+      const { offset = 0, limit = 20 } = validateParams(
+        request.method,
+        request.params,
+      );
+      return getHistory(offset, limit, origin);
+    }
+    case 'casper_getTransactions': {
+      const { offset = 0, limit = 20 } = validateParams(
+        request.method,
+        request.params,
+      );
+      return getTrackedTransactions(offset, limit, origin);
+    }
+    default:
+      throw new MethodNotFoundError({
+        method: request.method,
+      }) as unknown as Error;
+  }
+};
+
+/**
+ * Handle the cronjobs of the snap, declared in the manifest.
+ *
+ * @param args - The cronjob handler args as object.
+ * @param args.request - The cronjob request.
+ * @returns The result of the cronjob.
+ */
+export const onCronjob: OnCronjobHandler = async ({ request }) => {
+  switch (request.method) {
+    case 'checkTransactions':
+      return checkTransactions();
     default:
-      throw new Error('Method not found.');
+      throw new MethodNotFoundError({
+        method: request.method,
+      }) as unknown as Error;
+  }
+};
+
+/**
+ * Handle the home page of the snap, opened from the MetaMask menu.
+ *
+ * @returns The ID of the home page interface.
+ */
+export const onHomePage: OnHomePageHandler = async () => {
+  return { id: await createHomePage() };
+};
+
+/**
+ * Handle the interactions of the user with the interfaces of the snap.
+ *
+ * @param args - The user input handler args as object.
+ * @param args.id - The ID of the interface the user interacted with.
+ * @param args.event - The user input event.
+ * @param args.context - The context of the interface.
+ */
+export const onUserInput: OnUserInputHandler = async ({
+  id,
+  event,
+  context,
+}) => {
+  if (isHomePageEvent(event)) {
+    await handleHomePageInput(id, event, context);
+    return;
+  }
+  if (isBatchConfirmationEvent(event)) {
+    await handleBatchConfirmationInput(id, event, context);
+    return;
+  }
+  if (isAccountManagerEvent(event)) {
+    await handleAccountManagerInput(id, event);
+    return;
+  }
+  if (context) {
+    await handleDeployConfirmationInput(id, event, context);
   }
 };
@@ -0,0 +1,213 @@
+import { expect } from '@jest/globals';
+import type { Json } from '@metamask/snaps-sdk';
+import { assert } from '@metamask/snaps-sdk';
+import {
+  Approval,
+  Deploy,
+  DeployHeader,
+  Duration,
+  ExecutableDeployItem,
+  HexBytes,
+  KeyAlgorithm,
+  PrivateKey,
+  PublicKey,
+  Timestamp,
+  Transaction,
+  TransferDeployItem,
+} from 'casper-js-sdk';
+
+import { CasperErrorCode } from './errors';
+import {
+  assertTransactionIntegrity,
+  DEFAULT_MAX_TTL,
+  getRemainingTtl,
+  parseTransaction,
+} from './integrity';
+
+const NOW = Date.parse('2026-01-01T12:00:00.000Z');
+
+const MINUTE = 60 * 1000;
+
+/**
+ * A JSON formatted legacy deploy, typed for the fields the tests read or edit.
+ */
+type DeployJson = Record<string, Json> & {
+  hash: string;
+  header: Record<string, Json> & { timestamp: string };
+  approvals: { signer: string; signature: string }[];
+};
+
+/**
+ * Create a legacy transfer deploy.
+ *
+ * @param options - The deploy options.
+ * @param options.timestamp - The deploy timestamp, in milliseconds.
+ * @param options.ttl - The deploy TTL, in milliseconds.
+ * @param options.signer - A key approving the deploy.
+ * @returns The deploy.
+ */
+function createDeploy({
+  timestamp = NOW,
+  ttl = 30 * MINUTE,
+  signer,
+}: { timestamp?: number; ttl?: number; signer?: PrivateKey } = {}): DeployJson {
+  const session = new ExecutableDeployItem();
+  session.transfer = TransferDeployItem.newTransfer(
+    '2500000000',
+    PublicKey.fromHex(
+      '010068920746ecf5870e18911ee1fc5db975e0e97fffcbbf52f5045ad6c9838d2f',
+    ),
+    undefined,
+    35,
+  );
+
+  const deployHeader = DeployHeader.default();
+  deployHeader.account = PublicKey.fromHex(
+    '02025e3cc431e77e52e39e590af36a5dcb7e6ef1e22af86bfd8f022eeea8fccb6740',
+  );
+  deployHeader.chainName = 'casper-test';
+  deployHeader.timestamp = new Timestamp(new Date(timestamp));
+  deployHeader.ttl = new Duration(ttl);
+
+  const deploy = Deploy.makeDeploy(
+    deployHeader,
+    ExecutableDeployItem.standardPayment('100000000'),
+    session,
+  );
+  if (signer) {
+    deploy.sign(signer);
+  }
+  return Deploy.toJson(deploy) as DeployJson;
+}
+
+describe('assertTransactionIntegrity', () => {
+  it('accepts a valid deploy', () => {
+    const signer = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const transaction = Transaction.fromJson(createDeploy({ signer }));
+
+    expect(() =>
+      assertTransactionIntegrity(transaction, { now: NOW }),
+    ).not.toThrow();
+  });
+
+  it('rejects a deploy whose body hash does not match', () => {
+    const transaction = Transaction.fromJson(createDeploy());
+    const deploy = transaction.getDeploy() as Deploy;
+    deploy.payment = ExecutableDeployItem.standardPayment('999999999');
+
+    expect(() => assertTransactionIntegrity(transaction, { now: NOW })).toThrow(
+      'The body hash does not match the deploy payment and session.',
+    );
+  });
+
+  it('rejects a deploy whose hash does not match', () => {
+    const transaction = Transaction.fromJson(createDeploy());
+    (transaction.getDeploy() as Deploy).header.gasPrice = 5;
+
+    expect(() => assertTransactionIntegrity(transaction, { now: NOW })).toThrow(
+      'The deploy hash does not match the deploy content.',
+    );
+  });
+
+  it('rejects a deploy from the future', () => {
+    const transaction = Transaction.fromJson(
+      createDeploy({ timestamp: NOW + 5 * MINUTE }),
+    );
+
+    expect(() => assertTransactionIntegrity(transaction, { now: NOW })).toThrow(
+      'The deploy timestamp is in the future.',
+    );
+    expect(() =>
+      assertTransactionIntegrity(transaction, {
+        now: NOW,
+        clockSkewTolerance: 10 * MINUTE,
+      }),
+    ).not.toThrow();
+  });
+
+  it('rejects an expired deploy', () => {
+    const transaction = Transaction.fromJson(
+      createDeploy({ timestamp: NOW - 31 * MINUTE }),
+    );
+
+    expect(() => assertTransactionIntegrity(transaction, { now: NOW })).toThrow(
+      'The deploy has expired.',
+    );
+  });
+
+  it('rejects a TTL above the network maximum', () => {
+    const transaction = Transaction.fromJson(
+      createDeploy({ ttl: DEFAULT_MAX_TTL + MINUTE }),
+    );
+
+    expect(() => assertTransactionIntegrity(transaction, { now: NOW })).toThrow(
+      'The deploy TTL exceeds the network maximum.',
+    );
+  });
+
+  it('rejects an invalid existing approval', () => {
+    const signer = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const transaction = Transaction.fromJson(createDeploy());
+    transaction.approvals.push(
+      new Approval(signer.publicKey, HexBytes.fromHex(`01${'11'.repeat(64)}`)),
+    );
+
+    expect(() => assertTransactionIntegrity(transaction, { now: NOW })).toThrow(
+      'The deploy carries an invalid approval.',
+    );
+  });
+});
+
+describe('parseTransaction', () => {
+  it('parses a valid deploy', () => {
+    const deployJson = createDeploy();
+
+    expect(parseTransaction(deployJson).hash.toHex()).toBe(deployJson.hash);
+  });
+
+  it('rejects a deploy whose hash does not match', () => {
+    const deployJson = createDeploy();
+    deployJson.header.gas_price = 5;
+
+    expect(() => parseTransaction(deployJson)).toThrow(
+      expect.objectContaining({
+        code: CasperErrorCode.InvalidHash,
+        message:
+          'The deploy hash or body hash does not match the deploy content.',
+      }),
+    );
+  });
+
+  it('rejects a deploy with an invalid approval', () => {
+    const signer = PrivateKey.generate(KeyAlgorithm.ED25519);
+    const deployJson = createDeploy({ signer });
+    const [approval] = deployJson.approvals;
+    assert(approval);
+    approval.signature = `01${'11'.repeat(64)}`;
+
+    expect(() => parseTransaction(deployJson)).toThrow(
+      expect.objectContaining({
+        code: CasperErrorCode.InvalidApproval,
+        message: 'The deploy carries an invalid approval.',
+      }),
+    );
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseTransaction({ foo: 'bar' })).toThrow(
+      expect.objectContaining({
+        code: CasperErrorCode.InvalidTransaction,
+        message: 'Unable to convert json into deploy object.',
+      }),
+    );
+  });
+});
+
+describe('getRemainingTtl', () => {
+  it('returns the time left before expiry', () => {
+    const transaction = Transaction.fromJson(createDeploy());
+
+    expect(getRemainingTtl(transaction, NOW + 10 * MINUTE)).toBe(20 * MINUTE);
+    expect(getRemainingTtl(transaction, NOW + 40 * MINUTE)).toBe(0);
+  });
+});
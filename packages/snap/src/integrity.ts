@@ -0,0 +1,260 @@
+import { Conversions, Deploy, Transaction, TransactionV1 } from 'casper-js-sdk';
+import { blake2b } from 'ethereum-cryptography/blake2b';
+
+import { CasperError, CasperErrorCode, getErrorMessage } from './errors';
+
+/**
+ * The limits a transaction is checked against before it is signed.
+ */
+export type IntegrityOptions = {
+  // Current time, in milliseconds since the epoch.
+  now: number;
+  // Maximum time, in milliseconds, the timestamp may be ahead of `now`.
+  clockSkewTolerance: number;
+  // Maximum TTL, in milliseconds, accepted by the network.
+  maxTtl: number;
+};
+
+/**
+ * The maximum TTL of the Casper 2.0 chainspec.
+ */
+export const DEFAULT_MAX_TTL = 2 * 60 * 60 * 1000;
+
+export const DEFAULT_CLOCK_SKEW_TOLERANCE = 60 * 1000;
+
+/**
+ * Compute the blake2b-256 hash of some bytes.
+ *
+ * @param bytes - The bytes to hash.
+ * @returns The hex encoded hash.
+ */
+function hashHex(bytes: Uint8Array) {
+  return Conversions.encodeBase16(blake2b(bytes, 32));
+}
+
+/**
+ * Find out why the SDK refused to parse a transaction. The SDK verifies the
+ * hashes and approvals while parsing, and only reports a generic error.
+ *
+ * @param json - The JSON formatted deploy or transaction.
+ * @returns The reason reported by the deploy or transaction parser.
+ */
+function getParseFailureReason(json: Record<string, unknown>) {
+  try {
+    if ('payload' in json) {
+      TransactionV1.fromJSON(json);
+    } else {
+      Deploy.fromJSON(json);
+    }
+  } catch (error) {
+    return getErrorMessage(error);
+  }
+  return null;
+}
+
+/**
+ * Check if a transaction only fails to parse because of its approvals.
+ *
+ * @param json - The JSON formatted deploy or transaction.
+ * @returns `true` if the transaction parses once its approvals are removed.
+ */
+function hasInvalidApproval(json: Record<string, unknown>) {
+  if (!Array.isArray(json.approvals) || json.approvals.length === 0) {
+    return false;
+  }
+  try {
+    Transaction.fromJson({ ...json, approvals: [] });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse a deploy or a transaction.
+ *
+ * @param json - The JSON formatted deploy or transaction.
+ * @returns The parsed transaction.
+ * @throws A `CasperError` describing why the JSON cannot be parsed, with a
+ * dedicated code when its hashes or approvals are invalid.
+ */
+export function parseTransaction(json: Record<string, unknown>) {
+  try {
+    return Transaction.fromJson(json);
+  } catch (error) {
+    const reason = getParseFailureReason(json) ?? getErrorMessage(error);
+    const deployHash = typeof json.hash === 'string' ? json.hash : null;
+    if (hasInvalidApproval(json)) {
+      throw new CasperError(
+        CasperErrorCode.InvalidApproval,
+        'The deploy carries an invalid approval.',
+        { deployHash, reason },
+      );
+    }
+    if (/hash/iu.test(reason)) {
+      throw new CasperError(
+        CasperErrorCode.InvalidHash,
+        'The deploy hash or body hash does not match the deploy content.',
+        { deployHash, reason },
+      );
+    }
+    throw new CasperError(
+      CasperErrorCode.InvalidTransaction,
+      'Unable to convert json into deploy object.',
+      { reason },
+    );
+  }
+}
+
+/**
+ * Ensure the hashes of a transaction match its content.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @throws A `CasperError` if the body hash or the transaction hash does not
+ * match.
+ */
+function assertHashes(transaction: Transaction) {
+  const deployHash = transaction.hash.toHex();
+  const deploy = transaction.getDeploy();
+  const transactionV1 = transaction.getTransactionV1();
+
+  if (deploy) {
+    const bodyHash = hashHex(
+      new Uint8Array([...deploy.payment.bytes(), ...deploy.session.bytes()]),
+    );
+    if (deploy.header.bodyHash?.toHex() !== bodyHash) {
+      throw new CasperError(
+        CasperErrorCode.InvalidHash,
+        'The body hash does not match the deploy payment and session.',
+        {
+          deployHash,
+          bodyHash: deploy.header.bodyHash?.toHex() ?? null,
+          expected: bodyHash,
+        },
+      );
+    }
+  }
+
+  const headerBytes = deploy
+    ? deploy.header.toBytes()
+    : transactionV1?.payload.toBytes();
+  const expected = headerBytes ? hashHex(headerBytes) : null;
+  if (deployHash !== expected) {
+    throw new CasperError(
+      CasperErrorCode.InvalidHash,
+      'The deploy hash does not match the deploy content.',
+      { deployHash, expected },
+    );
+  }
+}
+
+/**
+ * Check a transaction before it is shown to the user, so that a deploy the
+ * network would refuse is never signed. The hashes and approvals are checked
+ * again, as the transaction may have been built without going through
+ * {@link parseTransaction}.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @param options - The limits to check the transaction against.
+ * @param options.now - Current time, in milliseconds since the epoch.
+ * @param options.clockSkewTolerance - Maximum time, in milliseconds, the
+ * timestamp may be ahead of `now`.
+ * @param options.maxTtl - Maximum TTL, in milliseconds, accepted by the network.
+ * @throws A `CasperError` if the hashes do not match the content, the
+ * timestamp is in the future, the transaction has expired, its TTL exceeds the
+ * network maximum, or an existing approval is invalid.
+ */
+export function assertTransactionIntegrity(
+  transaction: Transaction,
+  {
+    now = Date.now(),
+    clockSkewTolerance = DEFAULT_CLOCK_SKEW_TOLERANCE,
+    maxTtl = DEFAULT_MAX_TTL,
+  }: Partial<IntegrityOptions> = {},
+) {
+  assertHashes(transaction);
+
+  const deployHash = transaction.hash.toHex();
+  const timestamp = transaction.timestamp.date.getTime();
+  const ttl = transaction.ttl.duration;
+  if (timestamp > now + clockSkewTolerance) {
+    throw new CasperError(
+      CasperErrorCode.TimestampInFuture,
+      'The deploy timestamp is in the future.',
+      { deployHash, timestamp, now },
+    );
+  }
+  if (timestamp + ttl <= now) {
+    throw new CasperError(
+      CasperErrorCode.TransactionExpired,
+      'The deploy has expired.',
+      { deployHash, timestamp, ttl, now },
+    );
+  }
+  if (ttl > maxTtl) {
+    throw new CasperError(
+      CasperErrorCode.TtlTooLong,
+      'The deploy TTL exceeds the network maximum.',
+      { deployHash, ttl, maxTtl },
+    );
+  }
+
+  const hashBytes = Conversions.decodeBase16(deployHash);
+  transaction.approvals.forEach((approval, index) => {
+    let valid: boolean;
+    try {
+      valid = approval.signer.verifySignature(
+        hashBytes,
+        approval.signature.bytes,
+      );
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      throw new CasperError(
+        CasperErrorCode.InvalidApproval,
+        'The deploy carries an invalid approval.',
+        { deployHash, index, signer: approval.signer.toHex() },
+      );
+    }
+  });
+}
+
+/**
+ * Ensure an account has not approved a transaction yet, so that a partially
+ * signed multisig deploy never carries the same signer twice.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @param signingKey - Hex encoded public key of the account asked to sign.
+ * @throws A `CasperError` if the account already approved the transaction.
+ */
+export function assertNotApprovedBy(
+  transaction: Transaction,
+  signingKey: string,
+) {
+  const signer = signingKey.toLowerCase();
+  if (
+    transaction.approvals.some(
+      (approval) => approval.signer.toHex().toLowerCase() === signer,
+    )
+  ) {
+    throw new CasperError(
+      CasperErrorCode.AlreadyApproved,
+      'The deploy is already approved by this account.',
+      { deployHash: transaction.hash.toHex(), signer },
+    );
+  }
+}
+
+/**
+ * Get the time left before a transaction expires.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @param now - Current time, in milliseconds since the epoch.
+ * @returns The remaining TTL in milliseconds, `0` once expired.
+ */
+export function getRemainingTtl(transaction: Transaction, now = Date.now()) {
+  const expiry =
+    transaction.timestamp.date.getTime() + transaction.ttl.duration;
+  return Math.max(expiry - now, 0);
+}
@@ -0,0 +1,137 @@
+import { UserRejectedRequestError } from '@metamask/snaps-sdk';
+import { Box, Heading, Row, Text } from '@metamask/snaps-sdk/jsx';
+
+import { CasperError, CasperErrorCode } from './errors';
+import type { RpcParams } from './schemas';
+import type { NetworkProfile, SnapState } from './state';
+import { getState, updateState } from './state';
+
+/**
+ * Get the network a site is using, the default network if it never switched.
+ *
+ * @param state - The snap state.
+ * @param origin - Origin of the site.
+ * @returns The active network profile of the site.
+ */
+export function getOriginNetwork(
+  state: SnapState,
+  origin: string,
+): NetworkProfile {
+  const chainName = state.activeNetworks[origin] ?? state.defaultNetwork;
+  return (
+    state.networks.find((network) => network.chainName === chainName) ?? {
+      name: chainName,
+      chainName,
+    }
+  );
+}
+
+/**
+ * Get the network a site is using.
+ *
+ * @param origin - Origin of the request.
+ * @returns The active network profile of the origin.
+ */
+export async function getNetwork(origin: string): Promise<NetworkProfile> {
+  return getOriginNetwork(await getState(), origin);
+}
+
+/**
+ * Ask the user to switch the active network of a site. A chain name without
+ * profile is added as a custom network once the user approves it. The node URL
+ * and name are only used for new profiles, so a site cannot redirect an
+ * existing network to another node.
+ *
+ * @param origin - Origin of the request.
+ * @param request - The requested network.
+ * @param request.chainName - Chain name of the network.
+ * @param request.nodeUrl - Node URL of a new network.
+ * @param request.name - Display name of a new network.
+ * @returns The new active network profile of the origin.
+ * @throws If the user rejects the request.
+ */
+export async function switchNetwork(
+  origin: string,
+  request: RpcParams<'casper_switchNetwork'>,
+): Promise<NetworkProfile> {
+  const state = await getState();
+  if (getOriginNetwork(state, origin).chainName === request.chainName) {
+    return getOriginNetwork(state, origin);
+  }
+
+  const existing = state.networks.find(
+    (network) => network.chainName === request.chainName,
+  );
+  const profile: NetworkProfile = existing ?? {
+    name: request.name ?? request.chainName,
+    chainName: request.chainName,
+  };
+  if (!existing && request.nodeUrl) {
+    profile.nodeUrl = request.nodeUrl;
+  }
+
+  const approved = await snap.request({
+    method: 'snap_dialog',
+    params: {
+      type: 'confirmation',
+      content: (
+        <Box>
+          <Heading>{existing ? 'Switch network' : 'Add network'}</Heading>
+          <Row label="Request origin">
+            <Text>{origin}</Text>
+          </Row>
+          <Row label="Network">
+            <Text>{profile.name}</Text>
+          </Row>
+          <Row label="Chain Name">
+            <Text>{profile.chainName}</Text>
+          </Row>
+          <Row label="Node URL">
+            <Text>{profile.nodeUrl ?? 'None'}</Text>
+          </Row>
+          <Text>
+            This site will only be able to request signatures for this network.
+          </Text>
+        </Box>
+      ),
+    },
+  });
+  if (!approved) {
+    throw new UserRejectedRequestError({
+      method: 'casper_switchNetwork',
+    }) as unknown as Error;
+  }
+
+  await updateState((current) => ({
+    ...current,
+    networks: existing ? current.networks : [...current.networks, profile],
+    activeNetworks: {
+      ...current.activeNetworks,
+      [origin]: profile.chainName,
+    },
+  }));
+  return profile;
+}
+
+/**
+ * Ensure a transaction targets the network a site is using, so that a site
+ * cannot get a mainnet signature while the user believes they are on a test
+ * network.
+ *
+ * @param origin - Origin of the request.
+ * @param chainName - Chain name of the transaction.
+ * @returns The active network profile of the origin.
+ * @throws A `CasperError` if the chain name is not the one of the active
+ * network.
+ */
+export async function assertActiveNetwork(origin: string, chainName: string) {
+  const network = await getNetwork(origin);
+  if (network.chainName !== chainName) {
+    throw new CasperError(
+      CasperErrorCode.ChainNameMismatch,
+      `The deploy targets the "${chainName}" network, but this site is using "${network.chainName}".`,
+      { chainName, expected: network.chainName },
+    );
+  }
+  return network;
+}
@@ -0,0 +1,258 @@
+import type { Json } from '@metamask/snaps-sdk';
+import { Transaction } from 'casper-js-sdk';
+
+import { CasperError, CasperErrorCode, getErrorMessage } from './errors';
+import type { NetworkProfile } from './state';
+
+/**
+ * Time after which a request to a node is abandoned, in milliseconds.
+ */
+const REQUEST_TIMEOUT = 10_000;
+
+/* eslint-disable @typescript-eslint/naming-convention */
+/**
+ * The part of the `info_get_status` result used by the snap.
+ */
+export type NodeStatus = {
+  chainspec_name: string;
+  api_version: string;
+};
+
+/**
+ * The part of the `state_get_account_info` result used by the snap.
+ */
+type AccountInfo = {
+  account: { main_purse: string };
+};
+
+/**
+ * An execution result: unversioned from nodes before Casper 2.0, `Version1`
+ * for deploys executed before the upgrade and `Version2` after it.
+ */
+type ExecutionResult =
+  | { Success: Json }
+  | { Failure: { error_message: string } }
+  | { Version1: { Success: Json } | { Failure: { error_message: string } } }
+  | { Version2: { error_message?: string | null } };
+
+/**
+ * The part of the `info_get_deploy` and `info_get_transaction` results used by
+ * the snap. Nodes before Casper 2.0 return `execution_results`, later nodes
+ * return `execution_info`, which is `null` until the transaction is executed.
+ */
+type TransactionInfo = {
+  execution_results?: { result: ExecutionResult }[];
+  execution_info?: { execution_result: ExecutionResult | null } | null;
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * The outcome of a submitted transaction.
+ */
+export type ExecutionStatus =
+  | { status: 'pending' }
+  | { status: 'succeeded' }
+  | { status: 'failed'; errorMessage: string };
+
+type JsonRpcResponse =
+  | { result: Json }
+  | { error: { code: number; message: string; data?: Json } };
+
+/**
+ * Call a method of the JSON-RPC API of a Casper node.
+ *
+ * @param nodeUrl - URL of the JSON-RPC endpoint of the node.
+ * @param method - The JSON-RPC method.
+ * @param params - The params of the method.
+ * @returns The result of the method.
+ * @throws A `CasperError` if the node cannot be reached or answers with an
+ * error, whose JSON-RPC code and message are kept in `data`.
+ */
+export async function callNode(
+  nodeUrl: string,
+  method: string,
+  params: Record<string, Json> = {},
+): Promise<Json> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+  let response: JsonRpcResponse;
+  try {
+    const httpResponse = await fetch(nodeUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }),
+      signal: controller.signal,
+    });
+    if (!httpResponse.ok) {
+      throw new Error(`HTTP status ${httpResponse.status}.`);
+    }
+    response = (await httpResponse.json()) as JsonRpcResponse;
+  } catch (error) {
+    throw new CasperError(
+      CasperErrorCode.NodeRequestFailed,
+      `The node did not answer ${method}.`,
+      { method, nodeUrl, code: null, reason: getErrorMessage(error) },
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if ('error' in response) {
+    throw new CasperError(
+      CasperErrorCode.NodeRequestFailed,
+      `The node refused ${method}: ${response.error.message}`,
+      {
+        method,
+        nodeUrl,
+        code: response.error.code,
+        reason: response.error.message,
+        ...(response.error.data === undefined
+          ? {}
+          : { details: response.error.data }),
+      },
+    );
+  }
+  return response.result;
+}
+
+/**
+ * Get the status of a node.
+ *
+ * @param nodeUrl - URL of the JSON-RPC endpoint of the node.
+ * @returns The status of the node.
+ */
+export async function getNodeStatus(nodeUrl: string) {
+  return (await callNode(nodeUrl, 'info_get_status')) as NodeStatus;
+}
+
+/**
+ * Get the balance of the main purse of an account.
+ *
+ * @param nodeUrl - URL of the JSON-RPC endpoint of the node.
+ * @param accountIdentifier - Hex encoded public key of the account, or its
+ * account hash formatted as `account-hash-<hex>`.
+ * @returns The balance in motes.
+ */
+export async function getAccountBalance(
+  nodeUrl: string,
+  accountIdentifier: string,
+) {
+  const { account } = (await callNode(nodeUrl, 'state_get_account_info', {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    account_identifier: accountIdentifier,
+  })) as AccountInfo;
+  const { balance } = (await callNode(nodeUrl, 'query_balance', {
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    purse_identifier: { purse_uref: account.main_purse },
+  })) as { balance: string };
+  return balance;
+}
+
+/**
+ * Get the node URL of a network.
+ *
+ * @param network - The network profile.
+ * @returns The URL of the JSON-RPC endpoint of the node of the network.
+ * @throws A `CasperError` if the network has no node URL.
+ */
+export function getNodeUrl(network: NetworkProfile) {
+  if (!network.nodeUrl) {
+    throw new CasperError(
+      CasperErrorCode.NodeRequestFailed,
+      `The ${network.name} network has no node URL.`,
+      { chainName: network.chainName, nodeUrl: null },
+    );
+  }
+  return network.nodeUrl;
+}
+
+/**
+ * Submit a signed transaction to a node, with `account_put_deploy` for legacy
+ * deploys and `account_put_transaction` for Transaction V1.
+ *
+ * @param nodeUrl - URL of the JSON-RPC endpoint of the node.
+ * @param transaction - The signed transaction.
+ * @returns The hex encoded hash of the transaction.
+ * @throws A `CasperError` if the node cannot be reached, or rejects the
+ * transaction, in which case the JSON-RPC error of the node is kept in `data`.
+ */
+export async function submitTransaction(
+  nodeUrl: string,
+  transaction: Transaction,
+) {
+  const deployHash = transaction.hash.toHex();
+  const json = Transaction.toJSON(transaction) as Json;
+  try {
+    if (transaction.getDeploy()) {
+      await callNode(nodeUrl, 'account_put_deploy', { deploy: json });
+    } else {
+      await callNode(nodeUrl, 'account_put_transaction', {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        transaction: { Version1: json },
+      });
+    }
+  } catch (error) {
+    const data = error instanceof CasperError ? error.data : undefined;
+    if (typeof data?.code !== 'number') {
+      throw error;
+    }
+    throw new CasperError(
+      CasperErrorCode.TransactionRejected,
+      `The node rejected the transaction: ${String(data.reason)}`,
+      { ...data, deployHash },
+    );
+  }
+  return deployHash;
+}
+
+/**
+ * Get the outcome of an execution result.
+ *
+ * @param result - The execution result returned by the node.
+ * @returns The execution status.
+ */
+function getResultStatus(result: ExecutionResult): ExecutionStatus {
+  if ('Version2' in result) {
+    const errorMessage = result.Version2.error_message;
+    return typeof errorMessage === 'string'
+      ? { status: 'failed', errorMessage }
+      : { status: 'succeeded' };
+  }
+  const legacy = 'Version1' in result ? result.Version1 : result;
+  return 'Failure' in legacy
+    ? { status: 'failed', errorMessage: legacy.Failure.error_message }
+    : { status: 'succeeded' };
+}
+
+/**
+ * Get the outcome of a submitted transaction, with `info_get_deploy` for
+ * legacy deploys and `info_get_transaction` for Transaction V1.
+ *
+ * @param nodeUrl - URL of the JSON-RPC endpoint of the node.
+ * @param transactionHash - The hex encoded hash of the transaction.
+ * @param isDeploy - Whether the transaction is a legacy deploy.
+ * @returns The execution status, `pending` until the transaction is executed.
+ * @throws A `CasperError` if the node cannot be reached or does not know the
+ * transaction.
+ */
+export async function getExecutionStatus(
+  nodeUrl: string,
+  transactionHash: string,
+  isDeploy: boolean,
+): Promise<ExecutionStatus> {
+  /* eslint-disable @typescript-eslint/naming-convention */
+  const info = (
+    isDeploy
+      ? await callNode(nodeUrl, 'info_get_deploy', {
+          deploy_hash: transactionHash,
+        })
+      : await callNode(nodeUrl, 'info_get_transaction', {
+          transaction_hash: { Version1: transactionHash },
+        })
+  ) as TransactionInfo;
+  /* eslint-enable @typescript-eslint/naming-convention */
+  const result =
+    info.execution_info?.execution_result ??
+    info.execution_results?.[0]?.result;
+  return result ? getResultStatus(result) : { status: 'pending' };
+}
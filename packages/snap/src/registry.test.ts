@@ -0,0 +1,82 @@
+import { expect } from '@jest/globals';
+
+import {
+  createAccount,
+  MAX_LABEL_LENGTH,
+  moveAccount,
+  renameAccount,
+  toggleAccountHidden,
+} from './registry';
+import type { RegisteredAccount } from './state';
+
+const ACCOUNTS: RegisteredAccount[] = [
+  { addressIndex: 0, keyType: 'secp256k1', label: 'Main', hidden: false },
+  { addressIndex: 0, keyType: 'ed25519', label: 'Legacy', hidden: false },
+  { addressIndex: 1, keyType: 'secp256k1', label: 'Savings', hidden: true },
+];
+
+describe('createAccount', () => {
+  it('uses the next address index of the key type', () => {
+    expect(
+      createAccount(ACCOUNTS, 'secp256k1', 'Trading').at(-1),
+    ).toStrictEqual({
+      addressIndex: 2,
+      keyType: 'secp256k1',
+      label: 'Trading',
+      hidden: false,
+    });
+    expect(createAccount(ACCOUNTS, 'ed25519').at(-1)).toStrictEqual({
+      addressIndex: 1,
+      keyType: 'ed25519',
+      label: 'Ed25519 account 1',
+      hidden: false,
+    });
+  });
+
+  it('starts at the first address index', () => {
+    expect(createAccount([], 'secp256k1', '  ')).toStrictEqual([
+      {
+        addressIndex: 0,
+        keyType: 'secp256k1',
+        label: 'Account 0',
+        hidden: false,
+      },
+    ]);
+  });
+});
+
+describe('renameAccount', () => {
+  it('trims and truncates the label', () => {
+    const accounts = renameAccount(ACCOUNTS, 1, `  ${'a'.repeat(40)}  `);
+
+    expect(accounts[1]?.label).toBe('a'.repeat(MAX_LABEL_LENGTH));
+    expect(accounts[0]).toBe(ACCOUNTS[0]);
+  });
+
+  it('ignores an empty label', () => {
+    expect(renameAccount(ACCOUNTS, 0, ' ')).toBe(ACCOUNTS);
+  });
+});
+
+describe('toggleAccountHidden', () => {
+  it('hides and shows an account', () => {
+    expect(toggleAccountHidden(ACCOUNTS, 0)[0]?.hidden).toBe(true);
+    expect(toggleAccountHidden(ACCOUNTS, 2)[2]?.hidden).toBe(false);
+  });
+});
+
+describe('moveAccount', () => {
+  it('moves an account up and down', () => {
+    expect(
+      moveAccount(ACCOUNTS, 2, -1).map(({ label }) => label),
+    ).toStrictEqual(['Main', 'Savings', 'Legacy']);
+    expect(moveAccount(ACCOUNTS, 0, 1).map(({ label }) => label)).toStrictEqual(
+      ['Legacy', 'Main', 'Savings'],
+    );
+  });
+
+  it('ignores moves past either end', () => {
+    expect(moveAccount(ACCOUNTS, 0, -1)).toBe(ACCOUNTS);
+    expect(moveAccount(ACCOUNTS, 2, 1)).toBe(ACCOUNTS);
+  });
+});
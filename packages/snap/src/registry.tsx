@@ -0,0 +1,362 @@
+import type { UserInputEvent } from '@metamask/snaps-sdk';
+import { UserInputEventType } from '@metamask/snaps-sdk';
+import {
+  Box,
+  Button,
+  Container,
+  Dropdown,
+  Field,
+  Footer,
+  Form,
+  Heading,
+  Input,
+  Option,
+  Row,
+  Section,
+  Text,
+} from '@metamask/snaps-sdk/jsx';
+
+import type { AccountDescriptor, KeyType } from './accounts';
+import { getCSPRAddress, getDefaultAccountLabel } from './accounts';
+import { getGrantedIndices } from './connections';
+import type { RegisteredAccount } from './state';
+import { getState, updateState } from './state';
+
+export const MAX_LABEL_LENGTH = 32;
+
+const EVENT_PREFIX = 'registry-';
+
+const MOVE_UP_PREFIX = 'registry-up:';
+
+const MOVE_DOWN_PREFIX = 'registry-down:';
+
+const TOGGLE_HIDDEN_PREFIX = 'registry-toggle:';
+
+const CREATE_FORM = 'registry-create';
+
+const RENAME_FORM = 'registry-rename';
+
+const DONE_BUTTON = 'registry-done';
+
+const KEY_TYPE_NAMES: Record<KeyType, string> = {
+  secp256k1: 'Secp256k1',
+  ed25519: 'Ed25519',
+};
+
+/**
+ * Clean up a label typed by the user.
+ *
+ * @param label - The raw label.
+ * @returns The trimmed label, or `null` if it is empty.
+ */
+function normalizeLabel(label: unknown) {
+  if (typeof label !== 'string') {
+    return null;
+  }
+  const trimmed = label.trim().slice(0, MAX_LABEL_LENGTH);
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Register a new account, at the next free address index of its key type.
+ *
+ * @param accounts - The account registry.
+ * @param keyType - Key type of the new account.
+ * @param label - Label of the new account, a default label if empty.
+ * @returns The new account registry.
+ */
+export function createAccount(
+  accounts: RegisteredAccount[],
+  keyType: KeyType,
+  label?: string,
+): RegisteredAccount[] {
+  const indices = accounts
+    .filter((account) => account.keyType === keyType)
+    .map((account) => account.addressIndex);
+  const addressIndex = indices.length > 0 ? Math.max(...indices) + 1 : 0;
+  return [
+    ...accounts,
+    {
+      addressIndex,
+      keyType,
+      label:
+        normalizeLabel(label) ?? getDefaultAccountLabel(addressIndex, keyType),
+      hidden: false,
+    },
+  ];
+}
+
+/**
+ * Rename an account of the registry. An empty label is ignored.
+ *
+ * @param accounts - The account registry.
+ * @param position - Position of the account in the registry.
+ * @param label - The new label.
+ * @returns The new account registry.
+ */
+export function renameAccount(
+  accounts: RegisteredAccount[],
+  position: number,
+  label: string,
+): RegisteredAccount[] {
+  const normalized = normalizeLabel(label);
+  if (!normalized) {
+    return accounts;
+  }
+  return accounts.map((account, index) =>
+    index === position ? { ...account, label: normalized } : account,
+  );
+}
+
+/**
+ * Hide an account of the registry, or show it again.
+ *
+ * @param accounts - The account registry.
+ * @param position - Position of the account in the registry.
+ * @returns The new account registry.
+ */
+export function toggleAccountHidden(
+  accounts: RegisteredAccount[],
+  position: number,
+): RegisteredAccount[] {
+  return accounts.map((account, index) =>
+    index === position ? { ...account, hidden: !account.hidden } : account,
+  );
+}
+
+/**
+ * Move an account of the registry up or down. Moves past either end of the
+ * registry are ignored.
+ *
+ * @param accounts - The account registry.
+ * @param position - Position of the account in the registry.
+ * @param offset - `-1` to move the account up, `1` to move it down.
+ * @returns The new account registry.
+ */
+export function moveAccount(
+  accounts: RegisteredAccount[],
+  position: number,
+  offset: number,
+): RegisteredAccount[] {
+  const target = position + offset;
+  const moved = accounts[position];
+  if (!moved || target < 0 || target >= accounts.length) {
+    return accounts;
+  }
+  const reordered = accounts.filter((_account, index) => index !== position);
+  reordered.splice(target, 0, moved);
+  return reordered;
+}
+
+/**
+ * List the visible registered accounts an origin has been granted access to,
+ * in the order chosen by the user.
+ *
+ * @param origin - Origin of the request.
+ * @returns The descriptors of the accounts.
+ */
+export async function listAccounts(origin: string) {
+  const { accounts, connections } = await getState();
+  const descriptors: AccountDescriptor[] = [];
+  for (const { addressIndex, keyType, hidden } of accounts) {
+    if (
+      !hidden &&
+      getGrantedIndices(connections[origin], keyType).includes(addressIndex)
+    ) {
+      descriptors.push(await getCSPRAddress(addressIndex, keyType));
+    }
+  }
+  return descriptors;
+}
+
+/**
+ * Render the account manager.
+ *
+ * @param accounts - The account registry.
+ * @returns The interface content.
+ */
+function renderAccountManager(accounts: RegisteredAccount[]) {
+  return (
+    <Container>
+      <Box>
+        <Heading>Accounts</Heading>
+        {accounts.length === 0 ? (
+          <Text>No account is registered yet.</Text>
+        ) : null}
+        {accounts.map((account, position) => (
+          <Section>
+            <Row label={account.label}>
+              <Text>
+                {KEY_TYPE_NAMES[account.keyType]} #
+                {account.addressIndex.toString()}
+                {account.hidden ? ' (hidden)' : ''}
+              </Text>
+            </Row>
+            <Box direction="horizontal" alignment="space-between">
+              <Button
+                name={`${MOVE_UP_PREFIX}${position}`}
+                disabled={position === 0}
+              >
+                Move up
+              </Button>
+              <Button
+                name={`${MOVE_DOWN_PREFIX}${position}`}
+                disabled={position === accounts.length - 1}
+              >
+                Move down
+              </Button>
+              <Button name={`${TOGGLE_HIDDEN_PREFIX}${position}`}>
+                {account.hidden ? 'Show' : 'Hide'}
+              </Button>
+            </Box>
+          </Section>
+        ))}
+        {accounts.length > 0 ? (
+          <Form name={RENAME_FORM}>
+            <Field label="Account">
+              <Dropdown name="account">
+                {accounts.map((account, position) => (
+                  <Option value={position.toString()}>{account.label}</Option>
+                ))}
+              </Dropdown>
+            </Field>
+            <Field label="New label">
+              <Input name="rename-label" placeholder="Savings" />
+            </Field>
+            <Button type="submit" name={`${RENAME_FORM}-submit`}>
+              Rename
+            </Button>
+          </Form>
+        ) : null}
+        <Form name={CREATE_FORM}>
+          <Field label="Key type">
+            <Dropdown name="keyType">
+              <Option value="secp256k1">{KEY_TYPE_NAMES.secp256k1}</Option>
+              <Option value="ed25519">{KEY_TYPE_NAMES.ed25519}</Option>
+            </Dropdown>
+          </Field>
+          <Field label="Label">
+            <Input name="create-label" placeholder="Account name" />
+          </Field>
+          <Button type="submit" name={`${CREATE_FORM}-submit`}>
+            Create account
+          </Button>
+        </Form>
+      </Box>
+      <Footer>
+        <Button name={DONE_BUTTON}>Done</Button>
+      </Footer>
+    </Container>
+  );
+}
+
+/**
+ * Let the user create, name, hide and reorder the accounts of the registry.
+ * Every change is persisted as soon as it is made.
+ *
+ * @returns `null` once the user closes the account manager. The registry
+ * itself is not disclosed to the caller.
+ */
+export async function manageAccounts() {
+  const { accounts } = await getState();
+  const id = await snap.request({
+    method: 'snap_createInterface',
+    params: { ui: renderAccountManager(accounts) },
+  });
+  await snap.request({
+    method: 'snap_dialog',
+    params: { id },
+  });
+  return null;
+}
+
+/**
+ * Check if a user input event comes from the account manager.
+ *
+ * @param event - The user input event.
+ * @returns `true` if the event belongs to the account manager.
+ */
+export function isAccountManagerEvent(event: UserInputEvent) {
+  return event.name?.startsWith(EVENT_PREFIX) ?? false;
+}
+
+/**
+ * Get the registry update requested by a user input event.
+ *
+ * @param event - The user input event.
+ * @returns The function updating the registry, or `null` if the event does not
+ * change the registry.
+ */
+function getRegistryUpdate(
+  event: UserInputEvent,
+): ((accounts: RegisteredAccount[]) => RegisteredAccount[]) | null {
+  if (event.type === UserInputEventType.FormSubmitEvent) {
+    const { value } = event;
+    if (event.name === CREATE_FORM) {
+      const label = value['create-label'];
+      return (accounts) =>
+        createAccount(
+          accounts,
+          value.keyType === 'ed25519' ? 'ed25519' : 'secp256k1',
+          typeof label === 'string' ? label : undefined,
+        );
+    }
+    const label = value['rename-label'];
+    if (event.name === RENAME_FORM && typeof label === 'string') {
+      return (accounts) =>
+        renameAccount(accounts, Number(value.account), label);
+    }
+    return null;
+  }
+
+  if (event.type !== UserInputEventType.ButtonClickEvent || !event.name) {
+    return null;
+  }
+  const { name } = event;
+  const position = Number(name.slice(name.indexOf(':') + 1));
+  if (name.startsWith(MOVE_UP_PREFIX)) {
+    return (accounts) => moveAccount(accounts, position, -1);
+  }
+  if (name.startsWith(MOVE_DOWN_PREFIX)) {
+    return (accounts) => moveAccount(accounts, position, 1);
+  }
+  if (name.startsWith(TOGGLE_HIDDEN_PREFIX)) {
+    return (accounts) => toggleAccountHidden(accounts, position);
+  }
+  return null;
+}
+
+/**
+ * Handle the interactions of the user with the account manager.
+ *
+ * @param id - The interface ID.
+ * @param event - The user input event.
+ */
+export async function handleAccountManagerInput(
+  id: string,
+  event: UserInputEvent,
+) {
+  if (
+    event.type === UserInputEventType.ButtonClickEvent &&
+    event.name === DONE_BUTTON
+  ) {
+    await snap.request({
+      method: 'snap_resolveInterface',
+      params: { id, value: null },
+    });
+    return;
+  }
+
+  const update = getRegistryUpdate(event);
+  if (!update) {
+    return;
+  }
+  const { accounts } = await updateState((state) => ({
+    ...state,
+    accounts: update(state.accounts),
+  }));
+  await snap.request({
+    method: 'snap_updateInterface',
+    params: { id, ui: renderAccountManager(accounts) },
+  });
+}
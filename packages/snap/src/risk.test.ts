@@ -0,0 +1,213 @@
+import { expect } from '@jest/globals';
+import {
+  Args,
+  CLValue,
+  Deploy,
+  DeployHeader,
+  ExecutableDeployItem,
+  ModuleBytes,
+  PublicKey,
+  Transaction,
+  TransferDeployItem,
+} from 'casper-js-sdk';
+
+import { analyzeTransaction, DEFAULT_RISK_SETTINGS } from './risk';
+
+const SENDER =
+  '02025e3cc431e77e52e39e590af36a5dcb7e6ef1e22af86bfd8f022eeea8fccb6740';
+
+const RECIPIENT =
+  '010068920746ecf5870e18911ee1fc5db975e0e97fffcbbf52f5045ad6c9838d2f';
+
+// The smallest valid WASM module: the magic number and version.
+const WASM = new Uint8Array([0, 97, 115, 109, 1, 0, 0, 0]);
+
+type DeployOptions = {
+  session?: ExecutableDeployItem;
+  payment?: ExecutableDeployItem;
+  amount?: string;
+  gasPrice?: number;
+  chainName?: string;
+};
+
+/**
+ * Create a legacy deploy, a transfer with standard payment by default.
+ *
+ * @param options - The deploy options.
+ * @param options.session - The session item.
+ * @param options.payment - The payment item.
+ * @param options.amount - The transferred amount in motes.
+ * @param options.gasPrice - The gas price.
+ * @param options.chainName - The chain name.
+ * @returns The deploy, parsed back from its JSON representation.
+ */
+function createDeploy({
+  session,
+  payment = ExecutableDeployItem.standardPayment('100000000'),
+  amount = '2500000000',
+  gasPrice = 1,
+  chainName = 'casper-test',
+}: DeployOptions = {}) {
+  const transfer = new ExecutableDeployItem();
+  transfer.transfer = TransferDeployItem.newTransfer(
+    amount,
+    PublicKey.fromHex(RECIPIENT),
+    undefined,
+    35,
+  );
+
+  const deployHeader = DeployHeader.default();
+  deployHeader.account = PublicKey.fromHex(SENDER);
+  deployHeader.chainName = chainName;
+  deployHeader.gasPrice = gasPrice;
+
+  return Transaction.fromJson(
+    Deploy.toJson(
+      Deploy.makeDeploy(deployHeader, payment, session ?? transfer),
+    ),
+  );
+}
+
+/**
+ * Create a module bytes item.
+ *
+ * @param args - The runtime arguments.
+ * @returns The executable item.
+ */
+function createModuleBytes(args: Record<string, CLValue> = {}) {
+  const item = new ExecutableDeployItem();
+  item.moduleBytes = new ModuleBytes(WASM, Args.fromMap(args));
+  return item;
+}
+
+describe('analyzeTransaction', () => {
+  it('raises no warning for a standard transfer', () => {
+    expect(analyzeTransaction(createDeploy())).toStrictEqual({ warnings: [] });
+  });
+
+  it('describes session code and flags it as critical', () => {
+    const analysis = analyzeTransaction(
+      createDeploy({ session: createModuleBytes() }),
+    );
+
+    expect(analysis.sessionCode).toStrictEqual({
+      size: 8,
+      hash: 'f6a5dbf080e9c9d7834145653bce4c8cded62e664d7ddcdb5c526f5877006d74',
+    });
+    expect(analysis.warnings).toStrictEqual([
+      expect.objectContaining({ code: 'sessionCode', severity: 'critical' }),
+    ]);
+  });
+
+  it('flags custom payment code', () => {
+    const analysis = analyzeTransaction(
+      createDeploy({
+        payment: createModuleBytes({
+          amount: CLValue.newCLUInt512('100000000'),
+        }),
+      }),
+    );
+
+    expect(analysis.sessionCode).toBeUndefined();
+    expect(analysis.warnings).toStrictEqual([
+      expect.objectContaining({ code: 'customPayment', severity: 'warning' }),
+    ]);
+  });
+
+  it('flags amounts above the threshold', () => {
+    const transaction = createDeploy({ amount: '5000000000' });
+
+    expect(analyzeTransaction(transaction).warnings).toStrictEqual([]);
+    expect(
+      analyzeTransaction(transaction, {
+        ...DEFAULT_RISK_SETTINGS,
+        amountThreshold: '4000000000',
+      }).warnings,
+    ).toStrictEqual([
+      {
+        code: 'highAmount',
+        severity: 'warning',
+        message: 'This transaction moves more than your 4.0 CSPR threshold.',
+      },
+    ]);
+  });
+
+  it('flags a transfer amount that cannot be read', () => {
+    const transfer = new ExecutableDeployItem();
+    transfer.transfer = new TransferDeployItem(
+      Args.fromMap({
+        amount: CLValue.newCLString('lots'),
+        target: CLValue.newCLPublicKey(PublicKey.fromHex(RECIPIENT)),
+        id: CLValue.newCLOption(CLValue.newCLUint64(35)),
+      }),
+    );
+
+    expect(
+      analyzeTransaction(createDeploy({ session: transfer })),
+    ).toStrictEqual({
+      warnings: [
+        {
+          code: 'unreadableAmount',
+          severity: 'warning',
+          message:
+            'The CSPR amount of this transaction could not be read, so it was not checked against your threshold.',
+        },
+      ],
+    });
+  });
+
+  it('does not check token amounts against the CSPR threshold', () => {
+    const analysis = analyzeTransaction(
+      createDeploy({
+        session: createModuleBytes({
+          amount: CLValue.newCLUInt512('5000000000000'),
+        }),
+      }),
+    );
+
+    expect(analysis.warnings).toStrictEqual([
+      expect.objectContaining({ code: 'sessionCode' }),
+    ]);
+  });
+
+  it('flags a high gas price', () => {
+    expect(
+      analyzeTransaction(createDeploy({ gasPrice: 10 })).warnings,
+    ).toStrictEqual([
+      {
+        code: 'highGasPrice',
+        severity: 'warning',
+        message:
+          'This transaction accepts a gas price of up to 10, above the usual maximum of 3.',
+      },
+    ]);
+  });
+
+  it('flags unknown chain names', () => {
+    expect(
+      analyzeTransaction(createDeploy({ chainName: 'casper-net-1' })).warnings,
+    ).toStrictEqual([
+      {
+        code: 'unknownChain',
+        severity: 'warning',
+        message: 'This transaction targets the unknown network "casper-net-1".',
+      },
+    ]);
+  });
+
+  it('sorts warnings by severity', () => {
+    const analysis = analyzeTransaction(
+      createDeploy({
+        session: createModuleBytes(),
+        gasPrice: 10,
+        chainName: 'casper-net-1',
+      }),
+    );
+
+    expect(analysis.warnings.map(({ code }) => code)).toStrictEqual([
+      'sessionCode',
+      'highGasPrice',
+      'unknownChain',
+    ]);
+  });
+});
@@ -0,0 +1,183 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import type { Transaction } from 'casper-js-sdk';
+import { Conversions } from 'casper-js-sdk';
+import { blake2b } from 'ethereum-cryptography/blake2b';
+
+import {
+  convertMotesToCasper,
+  getNativeAmount,
+  isNativeTransaction,
+} from './utils';
+
+/**
+ * How much attention a risk warning requires from the user.
+ */
+export type RiskSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * A risk raised about a transaction.
+ */
+export type RiskWarning = {
+  code:
+    | 'sessionCode'
+    | 'customPayment'
+    | 'highAmount'
+    | 'unreadableAmount'
+    | 'highGasPrice'
+    | 'unknownChain';
+  severity: RiskSeverity;
+  message: string;
+};
+
+/**
+ * The WASM session code executed by a transaction.
+ */
+export type SessionCodeInfo = {
+  size: number;
+  // Hex encoded blake2b-256 hash of the WASM module.
+  hash: string;
+};
+
+/**
+ * The result of the risk analysis of a transaction.
+ */
+export type RiskAnalysis = {
+  sessionCode?: SessionCodeInfo;
+  warnings: RiskWarning[];
+};
+
+/**
+ * The user configurable thresholds of the risk analysis.
+ */
+export type RiskSettings = {
+  // Amount in motes above which an amount argument raises a warning.
+  amountThreshold: string;
+  maxGasPriceTolerance: number;
+  knownChainNames: string[];
+};
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  amountThreshold: '1000000000000',
+  maxGasPriceTolerance: 3,
+  knownChainNames: ['casper', 'casper-test'],
+};
+
+export const SEVERITY_ORDER: RiskSeverity[] = ['critical', 'warning', 'info'];
+
+/**
+ * Get the gas price the user accepts to pay for a transaction.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @returns The gas price or gas price tolerance, if the transaction has one.
+ */
+function getGasPriceTolerance(transaction: Transaction) {
+  const deploy = transaction.getDeploy();
+  if (deploy) {
+    return deploy.header.gasPrice;
+  }
+  const { paymentLimited, fixed } = transaction.pricingMode;
+  return (paymentLimited ?? fixed)?.gasPriceTolerance;
+}
+
+/**
+ * Check if a transaction pays its fee with custom payment code.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @returns `true` if the payment is not the standard payment.
+ */
+function hasCustomPayment(transaction: Transaction) {
+  const deploy = transaction.getDeploy();
+  if (deploy) {
+    const { moduleBytes } = deploy.payment;
+    return !moduleBytes || moduleBytes.moduleBytes.length > 0;
+  }
+  const { paymentLimited } = transaction.pricingMode;
+  return paymentLimited ? !paymentLimited.standardPayment : false;
+}
+
+/**
+ * Analyse the risks of signing a transaction. The analysis only depends on
+ * the transaction and the settings, so it can run before any dialog is shown.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @param settings - The risk thresholds.
+ * @returns The session code details and the warnings, most severe first.
+ */
+export function analyzeTransaction(
+  transaction: Transaction,
+  settings: RiskSettings = DEFAULT_RISK_SETTINGS,
+): RiskAnalysis {
+  const analysis: RiskAnalysis = { warnings: [] };
+
+  const moduleBytes = transaction.target.session?.moduleBytes;
+  if (moduleBytes && moduleBytes.length > 0) {
+    analysis.sessionCode = {
+      size: moduleBytes.length,
+      hash: Conversions.encodeBase16(blake2b(moduleBytes, 32)),
+    };
+    analysis.warnings.push({
+      code: 'sessionCode',
+      severity: 'critical',
+      message:
+        'This transaction runs custom WASM session code, which can spend any amount from your account. Only sign it if you trust the code and the requesting site.',
+    });
+  }
+
+  if (hasCustomPayment(transaction)) {
+    analysis.warnings.push({
+      code: 'customPayment',
+      severity: 'warning',
+      message:
+        'This transaction pays its fee with custom payment code, which can spend more than the displayed payment amount.',
+    });
+  }
+
+  // Only the amount of native transactions is in motes; contract calls usually
+  // take a token amount, which the CSPR threshold does not apply to.
+  if (isNativeTransaction(transaction) && transaction.args.args.get('amount')) {
+    const amount = getNativeAmount(transaction);
+    if (amount === null) {
+      analysis.warnings.push({
+        code: 'unreadableAmount',
+        severity: 'warning',
+        message:
+          'The CSPR amount of this transaction could not be read, so it was not checked against your threshold.',
+      });
+    } else if (BigNumber.from(amount).gt(settings.amountThreshold)) {
+      analysis.warnings.push({
+        code: 'highAmount',
+        severity: 'warning',
+        message: `This transaction moves more than your ${convertMotesToCasper(
+          settings.amountThreshold,
+        )} CSPR threshold.`,
+      });
+    }
+  }
+
+  const gasPriceTolerance = getGasPriceTolerance(transaction);
+  if (
+    gasPriceTolerance !== undefined &&
+    gasPriceTolerance > settings.maxGasPriceTolerance
+  ) {
+    analysis.warnings.push({
+      code: 'highGasPrice',
+      severity: 'warning',
+      message: `This transaction accepts a gas price of up to ${gasPriceTolerance}, above the usual maximum of ${settings.maxGasPriceTolerance}.`,
+    });
+  }
+
+  if (!settings.knownChainNames.includes(transaction.chainName)) {
+    analysis.warnings.push({
+      code: 'unknownChain',
+      severity: 'warning',
+      message: `This transaction targets the unknown network "${transaction.chainName}".`,
+    });
+  }
+
+  analysis.warnings.sort(
+    (first, second) =>
+      SEVERITY_ORDER.indexOf(first.severity) -
+      SEVERITY_ORDER.indexOf(second.severity),
+  );
+  return analysis;
+}
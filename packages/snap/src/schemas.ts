@@ -0,0 +1,358 @@
+import { InvalidParamsError } from '@metamask/snaps-sdk';
+import type { Infer, Struct } from '@metamask/superstruct';
+import {
+  array,
+  boolean,
+  enums,
+  integer,
+  min,
+  object,
+  optional,
+  pattern,
+  record,
+  refine,
+  size,
+  string,
+  union,
+  unknown,
+  validate,
+} from '@metamask/superstruct';
+
+import {
+  EncryptedMessageStruct,
+  EncryptionPublicKeyStruct,
+} from './encryption';
+import { TypedDataStruct } from './typeddata';
+
+/**
+ * The largest BIP-44 address index. Larger indices are hardened and cannot be
+ * derived.
+ */
+export const MAX_ADDRESS_INDEX = 2 ** 31 - 1;
+
+/**
+ * A BIP-44 address index.
+ */
+export const AddressIndexStruct = size(integer(), 0, MAX_ADDRESS_INDEX);
+
+/**
+ * The key type of an account. Defaults to Secp256k1.
+ */
+export const KeyTypeStruct = enums(['secp256k1', 'ed25519']);
+
+/**
+ * Params of `casper_connect`. Defaults to the first account.
+ */
+export const ConnectParamsStruct = object({
+  addressIndices: optional(size(array(AddressIndexStruct), 1, 20)),
+  keyType: optional(KeyTypeStruct),
+});
+
+/**
+ * Params of `casper_disconnect`.
+ */
+export const DisconnectParamsStruct = object({});
+
+/**
+ * Params of `casper_manageConnections`.
+ */
+export const ManageConnectionsParamsStruct = object({});
+
+/**
+ * Params of `casper_getAccount`.
+ */
+export const GetAccountParamsStruct = object({
+  addressIndex: optional(AddressIndexStruct),
+  keyType: optional(KeyTypeStruct),
+});
+
+/**
+ * Params of `casper_getAccounts`. Returns `count` accounts starting at
+ * `startIndex`, all within the range of address indices.
+ */
+export const GetAccountsParamsStruct = refine(
+  object({
+    startIndex: optional(AddressIndexStruct),
+    count: size(integer(), 1, 20),
+    keyType: optional(KeyTypeStruct),
+  }),
+  'AccountRange',
+  ({ startIndex = 0, count }) =>
+    startIndex + count - 1 <= MAX_ADDRESS_INDEX || {
+      path: ['count'],
+      message: `Expected the last address index to be at most ${MAX_ADDRESS_INDEX}.`,
+    },
+);
+
+/**
+ * Params of `casper_listAccounts`.
+ */
+export const ListAccountsParamsStruct = object({});
+
+/**
+ * Params of `casper_manageAccounts`.
+ */
+export const ManageAccountsParamsStruct = object({});
+
+/**
+ * Format of the signature returned by the signing methods. Defaults to `raw`.
+ */
+const SignatureFormatStruct = enums(['raw', 'tagged', 'compact']);
+
+/**
+ * Params of `casper_sign`.
+ */
+export const SignParamsStruct = object({
+  deployJson: record(string(), unknown()),
+  addressIndex: optional(AddressIndexStruct),
+  keyType: optional(KeyTypeStruct),
+  signatureFormat: optional(SignatureFormatStruct),
+});
+
+/**
+ * Params of `casper_signAndSubmit`, the same as `casper_sign`.
+ */
+export const SignAndSubmitParamsStruct = SignParamsStruct;
+
+/**
+ * Params of `casper_submit`. The deploy must already be signed.
+ */
+export const SubmitParamsStruct = object({
+  deployJson: record(string(), unknown()),
+});
+
+/**
+ * Params of `casper_signBatch`. Every deploy is signed by the same account.
+ */
+export const SignBatchParamsStruct = object({
+  deploys: size(array(record(string(), unknown())), 1, 50),
+  addressIndex: optional(AddressIndexStruct),
+  keyType: optional(KeyTypeStruct),
+});
+
+/**
+ * How a message is encoded. Defaults to UTF-8.
+ */
+const MessageEncodingStruct = enums(['utf8', 'hex', 'base64']);
+
+/**
+ * Params of `casper_signMessage`. Messages are prefixed unless `prefix` is
+ * `false`, which requires blind signing to be enabled in the settings.
+ */
+export const SignMessageParamsStruct = object({
+  message: string(),
+  encoding: optional(MessageEncodingStruct),
+  prefix: optional(boolean()),
+  addressIndex: optional(AddressIndexStruct),
+  keyType: optional(KeyTypeStruct),
+  signatureFormat: optional(SignatureFormatStruct),
+});
+
+/**
+ * Params of `casper_signIn`. The domain is optional, as the snap takes it from
+ * the origin of the request; a site supplying it only gets a signature if it
+ * matches.
+ */
+export const SignInParamsStruct = object({
+  nonce: pattern(string(), /^[A-Za-z0-9]{8,64}$/u),
+  statement: optional(pattern(size(string(), 1, 256), /^[^\n]*$/u)),
+  expirationTime: optional(
+    pattern(
+      string(),
+      /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/u,
+    ),
+  ),
+  resources: optional(
+    size(array(pattern(string(), /^[a-z][\w+.-]*:\S+$/u)), 0, 10),
+  ),
+  domain: optional(size(string(), 1, 253)),
+  addressIndex: optional(AddressIndexStruct),
+  keyType: optional(KeyTypeStruct),
+  signatureFormat: optional(SignatureFormatStruct),
+});
+
+/**
+ * Params of `casper_signTypedData`.
+ */
+export const SignTypedDataParamsStruct = object({
+  typedData: TypedDataStruct,
+  addressIndex: optional(AddressIndexStruct),
+  keyType: optional(KeyTypeStruct),
+  signatureFormat: optional(SignatureFormatStruct),
+});
+
+/**
+ * A hex encoded public key, prefixed with the tag of its algorithm.
+ */
+const PublicKeyStruct = pattern(
+  string(),
+  /^(01[0-9a-fA-F]{64}|02[0-9a-fA-F]{66})$/u,
+);
+
+/**
+ * A hex encoded signature, with or without the tag of its algorithm, or a
+ * compact Secp256k1 signature followed by its recovery id.
+ */
+const SignatureStruct = pattern(
+  string(),
+  /^((0[12])?[0-9a-fA-F]{128}|[0-9a-fA-F]{128}0[01])$/u,
+);
+
+/**
+ * Params of `casper_verifyMessage`: a message signature from
+ * `casper_signMessage`, or an approval of the deploy with the given hash.
+ */
+export const VerifyMessageParamsStruct = union([
+  object({
+    publicKey: PublicKeyStruct,
+    signature: SignatureStruct,
+    message: string(),
+    encoding: optional(MessageEncodingStruct),
+    prefix: optional(boolean()),
+  }),
+  object({
+    publicKey: PublicKeyStruct,
+    signature: SignatureStruct,
+    deployHash: pattern(string(), /^[0-9a-fA-F]{64}$/u),
+  }),
+]);
+
+/**
+ * Params of `casper_getEncryptionPublicKey`.
+ */
+export const GetEncryptionPublicKeyParamsStruct = object({
+  addressIndex: optional(AddressIndexStruct),
+  keyType: optional(KeyTypeStruct),
+});
+
+/**
+ * Params of `casper_encrypt`. The message is encrypted for the holder of the
+ * given encryption public key.
+ */
+export const EncryptParamsStruct = object({
+  publicKey: EncryptionPublicKeyStruct,
+  message: string(),
+});
+
+/**
+ * Params of `casper_decrypt`.
+ */
+export const DecryptParamsStruct = object({
+  encryptedMessage: EncryptedMessageStruct,
+  addressIndex: optional(AddressIndexStruct),
+  keyType: optional(KeyTypeStruct),
+});
+
+/**
+ * Params of `casper_getNetwork`.
+ */
+export const GetNetworkParamsStruct = object({});
+
+/**
+ * Params of `casper_switchNetwork`. The node URL and name are only used when
+ * the chain name has no network profile yet.
+ */
+export const SwitchNetworkParamsStruct = object({
+  chainName: size(string(), 1, 64),
+  nodeUrl: optional(pattern(string(), /^https?:\/\/\S+$/u)),
+  name: optional(size(string(), 1, 64)),
+});
+
+/**
+ * Params of `casper_getHistory`. Returns up to `limit` entries of the audit log,
+ * newest first, after skipping `offset` entries.
+ */
+export const GetHistoryParamsStruct = object({
+  offset: optional(min(integer(), 0)),
+  limit: optional(size(integer(), 1, 50)),
+});
+
+/**
+ * Params of `casper_getTransactions`. Returns up to `limit` of the transactions
+ * submitted by the origin, newest first, after skipping `offset` transactions.
+ */
+export const GetTransactionsParamsStruct = GetHistoryParamsStruct;
+
+/**
+ * The params schema of every RPC method exposed by the snap. A method must be
+ * listed here before it can be dispatched from `onRpcRequest`.
+ */
+/* eslint-disable @typescript-eslint/naming-convention */
+export const rpcParamsStructs = {
+  casper_connect: ConnectParamsStruct,
+  casper_disconnect: DisconnectParamsStruct,
+  casper_manageConnections: ManageConnectionsParamsStruct,
+  casper_getAccount: GetAccountParamsStruct,
+  casper_getAccounts: GetAccountsParamsStruct,
+  casper_listAccounts: ListAccountsParamsStruct,
+  casper_manageAccounts: ManageAccountsParamsStruct,
+  casper_sign: SignParamsStruct,
+  casper_signAndSubmit: SignAndSubmitParamsStruct,
+  casper_submit: SubmitParamsStruct,
+  casper_signBatch: SignBatchParamsStruct,
+  casper_signMessage: SignMessageParamsStruct,
+  casper_signIn: SignInParamsStruct,
+  casper_signTypedData: SignTypedDataParamsStruct,
+  casper_verifyMessage: VerifyMessageParamsStruct,
+  casper_getEncryptionPublicKey: GetEncryptionPublicKeyParamsStruct,
+  casper_encrypt: EncryptParamsStruct,
+  casper_decrypt: DecryptParamsStruct,
+  casper_getNetwork: GetNetworkParamsStruct,
+  casper_switchNetwork: SwitchNetworkParamsStruct,
+  casper_getHistory: GetHistoryParamsStruct,
+  casper_getTransactions: GetTransactionsParamsStruct,
+};
+/* eslint-enable @typescript-eslint/naming-convention */
+
+export type RpcMethod = keyof typeof rpcParamsStructs;
+
+export type RpcParams<Method extends RpcMethod> = Infer<
+  (typeof rpcParamsStructs)[Method]
+>;
+
+/**
+ * A single field failing validation.
+ */
+export type ParamError = {
+  path: string;
+  message: string;
+};
+
+/**
+ * Check if a method is exposed by the snap.
+ *
+ * @param method - The requested method.
+ * @returns `true` if the method has a params schema, `false` otherwise.
+ */
+export function isRpcMethod(method: string): method is RpcMethod {
+  return Object.prototype.hasOwnProperty.call(rpcParamsStructs, method);
+}
+
+/**
+ * Validate the params of an RPC request against the schema of its method.
+ * Missing params are validated as an empty object, so methods with only
+ * optional params can be called without any.
+ *
+ * @param method - The requested method.
+ * @param params - The raw request params.
+ * @returns The validated params.
+ * @throws An `InvalidParamsError` listing every invalid field.
+ */
+export function validateParams<Method extends RpcMethod>(
+  method: Method,
+  params: unknown,
+): RpcParams<Method> {
+  const struct = rpcParamsStructs[method] as Struct<RpcParams<Method>>;
+  const [error, value] = validate(params ?? {}, struct);
+  if (error) {
+    const errors: ParamError[] = error.failures().map((failure) => ({
+      path: failure.path.join('.'),
+      message: failure.message,
+    }));
+    throw new InvalidParamsError(`Invalid params for ${method}.`, {
+      method,
+      errors,
+    }) as unknown as Error;
+  }
+  return value;
+}
@@ -0,0 +1,111 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { expect } from '@jest/globals';
+import { Conversions } from 'casper-js-sdk';
+import {
+  ecdsaRecover,
+  ecdsaSign,
+  ecdsaVerify,
+  publicKeyCreate,
+} from 'ethereum-cryptography/secp256k1-compat';
+import { sha256 } from 'ethereum-cryptography/sha256';
+
+import {
+  assertSignatureFormat,
+  formatSignature,
+  normalizeLowS,
+} from './signatures';
+
+const PRIVATE_KEY = new Uint8Array(32).fill(7);
+
+const PUBLIC_KEY = publicKeyCreate(PRIVATE_KEY, true);
+
+const SECP256K1_ORDER = BigNumber.from(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+);
+
+const DIGEST = sha256(new TextEncoder().encode('Hello Casper'));
+
+/**
+ * Get the S value of a signature.
+ *
+ * @param bytes - The 64-byte signature.
+ * @returns The S value.
+ */
+function getS(bytes: Uint8Array) {
+  return BigNumber.from(bytes.slice(32, 64));
+}
+
+/**
+ * Turn a signature into its high-S twin, which is an equally valid signature
+ * of the same digest.
+ *
+ * @param bytes - The 64-byte low-S signature.
+ * @returns The high-S signature.
+ */
+function toHighS(bytes: Uint8Array) {
+  const highS = Conversions.decodeBase16(
+    SECP256K1_ORDER.sub(getS(bytes)).toHexString().slice(2).padStart(64, '0'),
+  );
+  return new Uint8Array([...bytes.slice(0, 32), ...highS]);
+}
+
+describe('normalizeLowS', () => {
+  it('leaves a low-S signature untouched', () => {
+    const { signature, recid } = ecdsaSign(DIGEST, PRIVATE_KEY);
+
+    expect(normalizeLowS(signature, recid)).toStrictEqual({
+      bytes: signature,
+      recoveryId: recid,
+    });
+  });
+
+  it('normalizes a high-S signature and flips its recovery id', () => {
+    const { signature, recid } = ecdsaSign(DIGEST, PRIVATE_KEY);
+    const highS = toHighS(signature);
+    expect(getS(highS).gt(SECP256K1_ORDER.div(2))).toBe(true);
+
+    const normalized = normalizeLowS(highS, 1 - recid);
+
+    expect(normalized).toStrictEqual({ bytes: signature, recoveryId: recid });
+    expect(ecdsaVerify(normalized.bytes, DIGEST, PUBLIC_KEY)).toBe(true);
+    expect(
+      ecdsaRecover(normalized.bytes, normalized.recoveryId, DIGEST, true),
+    ).toStrictEqual(PUBLIC_KEY);
+  });
+});
+
+describe('formatSignature', () => {
+  const bytes = new Uint8Array(64).fill(0xab);
+
+  it('returns the raw signature by default', () => {
+    expect(formatSignature({ curve: 'secp256k1', bytes, recoveryId: 1 })).toBe(
+      'ab'.repeat(64),
+    );
+  });
+
+  it.each([
+    ['ed25519', '01'],
+    ['secp256k1', '02'],
+  ] as const)('tags a %s signature', (curve, tag) => {
+    expect(formatSignature({ curve, bytes, recoveryId: null }, 'tagged')).toBe(
+      `${tag}${'ab'.repeat(64)}`,
+    );
+  });
+
+  it('appends the recovery id in the compact format', () => {
+    expect(
+      formatSignature({ curve: 'secp256k1', bytes, recoveryId: 1 }, 'compact'),
+    ).toBe(`${'ab'.repeat(64)}01`);
+  });
+});
+
+describe('assertSignatureFormat', () => {
+  it('rejects compact Ed25519 signatures', () => {
+    expect(() =>
+      assertSignatureFormat('casper_signMessage', 'ed25519', 'compact'),
+    ).toThrow('Invalid params for casper_signMessage.');
+    expect(() =>
+      assertSignatureFormat('casper_signMessage', 'secp256k1', 'compact'),
+    ).not.toThrow();
+  });
+});
@@ -0,0 +1,112 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import { InvalidParamsError } from '@metamask/snaps-sdk';
+import { Conversions } from 'casper-js-sdk';
+
+import type { KeyType } from './accounts';
+
+/**
+ * How a signature is returned to the site:
+ *
+ * - `raw`: the 64-byte signature.
+ * - `tagged`: the signature prefixed with the tag of its algorithm, `01` for
+ * Ed25519 and `02` for Secp256k1, as in deploy approvals.
+ * - `compact`: the 64-byte Secp256k1 signature followed by its recovery id,
+ * `0` or `1`, from which the public key can be recovered.
+ */
+export type SignatureFormat = 'raw' | 'tagged' | 'compact';
+
+/**
+ * A signature made by an account of the snap.
+ */
+export type AccountSignature = {
+  curve: KeyType;
+  // The 64-byte signature, without the tag of the algorithm.
+  bytes: Uint8Array;
+  // Recovery id of Secp256k1 signatures, `null` for Ed25519 ones.
+  recoveryId: number | null;
+};
+
+const ALGORITHM_TAGS: Record<KeyType, number> = {
+  ed25519: 0x01,
+  secp256k1: 0x02,
+};
+
+const SECP256K1_ORDER = BigNumber.from(
+  '0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141',
+);
+
+const SECP256K1_HALF_ORDER = SECP256K1_ORDER.div(2);
+
+/**
+ * Normalize a Secp256k1 signature to its low-S form, so that every signature
+ * returned by the snap is canonical. Negating S also negates the recovered
+ * point, so the parity bit of the recovery id is flipped along with it.
+ *
+ * @param bytes - The 64-byte signature, `r || s`.
+ * @param recoveryId - The recovery id of the signature.
+ * @returns The low-S signature and its recovery id.
+ */
+export function normalizeLowS(bytes: Uint8Array, recoveryId: number) {
+  const sValue = BigNumber.from(bytes.slice(32, 64));
+  if (sValue.lte(SECP256K1_HALF_ORDER)) {
+    return { bytes, recoveryId };
+  }
+  const lowS = Conversions.decodeBase16(
+    SECP256K1_ORDER.sub(sValue).toHexString().slice(2).padStart(64, '0'),
+  );
+  return {
+    bytes: new Uint8Array([...bytes.slice(0, 32), ...lowS]),
+    recoveryId: recoveryId % 2 === 0 ? recoveryId + 1 : recoveryId - 1,
+  };
+}
+
+/**
+ * Ensure a signature can be returned in the requested format, before the user
+ * is asked to approve the request.
+ *
+ * @param method - The requested method.
+ * @param keyType - Key type of the signing account.
+ * @param format - The requested signature format.
+ * @throws An `InvalidParamsError` if an Ed25519 signature is requested in the
+ * compact format, which only exists for Secp256k1.
+ */
+export function assertSignatureFormat(
+  method: string,
+  keyType: KeyType,
+  format: SignatureFormat,
+) {
+  if (format === 'compact' && keyType !== 'secp256k1') {
+    throw new InvalidParamsError(`Invalid params for ${method}.`, {
+      method,
+      errors: [
+        {
+          path: 'signatureFormat',
+          message: 'Only Secp256k1 signatures have a compact recoverable form.',
+        },
+      ],
+    }) as unknown as Error;
+  }
+}
+
+/**
+ * Encode a signature in the requested format.
+ *
+ * @param signature - The signature.
+ * @param format - The signature format.
+ * @returns The hex encoded signature.
+ */
+export function formatSignature(
+  signature: AccountSignature,
+  format: SignatureFormat = 'raw',
+) {
+  const { curve, bytes, recoveryId } = signature;
+  if (format === 'tagged') {
+    return Conversions.encodeBase16(
+      new Uint8Array([ALGORITHM_TAGS[curve], ...bytes]),
+    );
+  }
+  if (format === 'compact' && recoveryId !== null) {
+    return Conversions.encodeBase16(new Uint8Array([...bytes, recoveryId]));
+  }
+  return Conversions.encodeBase16(bytes);
+}
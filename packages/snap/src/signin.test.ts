@@ -0,0 +1,111 @@
+import { expect } from '@jest/globals';
+
+import { CasperErrorCode } from './errors';
+import {
+  assertSignInNotExpired,
+  buildSignInMessage,
+  getSignInDomain,
+} from './signin';
+
+const PUBLIC_KEY =
+  '02025E3cC431e77E52e39E590AF36a5dcb7e6EF1E22aF86BfD8F022Eeea8Fccb6740';
+
+describe('buildSignInMessage', () => {
+  it('builds a message with every field', () => {
+    expect(
+      buildSignInMessage({
+        domain: 'example.com',
+        publicKey: PUBLIC_KEY,
+        statement: 'Sign in to the order book.',
+        uri: 'https://example.com',
+        chainName: 'casper-test',
+        nonce: 'abcdef1234',
+        issuedAt: '2026-01-01T12:00:00.000Z',
+        expirationTime: '2026-01-01T12:10:00.000Z',
+        resources: ['https://example.com/terms'],
+      }),
+    ).toBe(
+      [
+        'example.com wants you to sign in with your Casper account:',
+        PUBLIC_KEY,
+        '',
+        'Sign in to the order book.',
+        '',
+        'URI: https://example.com',
+        'Version: 1',
+        'Chain Name: casper-test',
+        'Nonce: abcdef1234',
+        'Issued At: 2026-01-01T12:00:00.000Z',
+        'Expiration Time: 2026-01-01T12:10:00.000Z',
+        'Resources:',
+        '- https://example.com/terms',
+      ].join('\n'),
+    );
+  });
+
+  it('leaves out the optional fields', () => {
+    expect(
+      buildSignInMessage({
+        domain: 'example.com',
+        publicKey: PUBLIC_KEY,
+        uri: 'https://example.com',
+        chainName: 'casper-test',
+        nonce: 'abcdef1234',
+        issuedAt: '2026-01-01T12:00:00.000Z',
+      }),
+    ).toBe(
+      [
+        'example.com wants you to sign in with your Casper account:',
+        PUBLIC_KEY,
+        '',
+        'URI: https://example.com',
+        'Version: 1',
+        'Chain Name: casper-test',
+        'Nonce: abcdef1234',
+        'Issued At: 2026-01-01T12:00:00.000Z',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('getSignInDomain', () => {
+  it('uses the host of the origin', () => {
+    expect(getSignInDomain('https://example.com:8443')).toBe(
+      'example.com:8443',
+    );
+    expect(getSignInDomain('https://example.com', 'Example.com')).toBe(
+      'example.com',
+    );
+  });
+
+  it('refuses a domain that does not match the origin', () => {
+    expect(() => getSignInDomain('https://phishing.io', 'example.com')).toThrow(
+      expect.objectContaining({
+        code: CasperErrorCode.DomainMismatch,
+        data: { domain: 'example.com', origin: 'https://phishing.io' },
+      }),
+    );
+  });
+});
+
+describe('assertSignInNotExpired', () => {
+  const NOW = Date.parse('2026-01-01T12:00:00.000Z');
+
+  it('accepts a request expiring in the future', () => {
+    expect(() =>
+      assertSignInNotExpired(
+        { nonce: 'abcdef1234', expirationTime: '2026-01-01T12:10:00Z' },
+        NOW,
+      ),
+    ).not.toThrow();
+  });
+
+  it('refuses an expired request', () => {
+    expect(() =>
+      assertSignInNotExpired(
+        { nonce: 'abcdef1234', expirationTime: '2026-01-01T11:59:59Z' },
+        NOW,
+      ),
+    ).toThrow('Invalid params for casper_signIn.');
+  });
+});
@@ -0,0 +1,106 @@
+import { InvalidParamsError } from '@metamask/snaps-sdk';
+
+import { CasperError, CasperErrorCode } from './errors';
+import type { RpcParams } from './schemas';
+
+/**
+ * The fields of a sign-in message. The domain, URI, chain name and issue time
+ * are filled in by the snap, never by the site.
+ */
+export type SignInFields = {
+  // Host of the requesting origin, e.g. `example.com`.
+  domain: string;
+  publicKey: string;
+  statement?: string | undefined;
+  // The requesting origin, e.g. `https://example.com`.
+  uri: string;
+  chainName: string;
+  nonce: string;
+  // ISO 8601 timestamps.
+  issuedAt: string;
+  expirationTime?: string | undefined;
+  resources?: string[] | undefined;
+};
+
+/**
+ * Get the domain a sign-in message is made for, refusing requests whose
+ * domain is not the one of the requesting origin.
+ *
+ * @param origin - Origin of the request.
+ * @param domain - The domain supplied by the site, if any.
+ * @returns The host of the origin.
+ * @throws A `CasperError` if the supplied domain does not match the origin.
+ */
+export function getSignInDomain(origin: string, domain?: string) {
+  let host: string;
+  try {
+    host = new URL(origin).host;
+  } catch {
+    host = origin;
+  }
+  if (domain !== undefined && domain.toLowerCase() !== host.toLowerCase()) {
+    throw new CasperError(
+      CasperErrorCode.DomainMismatch,
+      `The sign-in request is for "${domain}", but it comes from "${host}".`,
+      { domain, origin },
+    );
+  }
+  return host;
+}
+
+/**
+ * Ensure the expiration time of a sign-in request is in the future.
+ *
+ * @param request - The sign-in request.
+ * @param now - Current time, in milliseconds since the epoch.
+ * @throws An `InvalidParamsError` if the request has already expired.
+ */
+export function assertSignInNotExpired(
+  request: RpcParams<'casper_signIn'>,
+  now = Date.now(),
+) {
+  const { expirationTime } = request;
+  if (expirationTime !== undefined && Date.parse(expirationTime) <= now) {
+    throw new InvalidParamsError('Invalid params for casper_signIn.', {
+      method: 'casper_signIn',
+      errors: [
+        {
+          path: 'expirationTime',
+          message: 'The expiration time must be in the future.',
+        },
+      ],
+    }) as unknown as Error;
+  }
+}
+
+/**
+ * Build a sign-in message, in the layout of Sign-In with Ethereum (EIP-4361)
+ * adapted to Casper accounts.
+ *
+ * @param fields - The fields of the message.
+ * @returns The sign-in message.
+ */
+export function buildSignInMessage(fields: SignInFields) {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Casper account:`,
+    fields.publicKey,
+    '',
+  ];
+  if (fields.statement) {
+    lines.push(fields.statement, '');
+  }
+  lines.push(
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Chain Name: ${fields.chainName}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  );
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+  if (fields.resources && fields.resources.length > 0) {
+    lines.push('Resources:', ...fields.resources.map((uri) => `- ${uri}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,205 @@
+import type { KeyType } from './accounts';
+import type { Language } from './i18n';
+import type { RiskSettings } from './risk';
+import { DEFAULT_RISK_SETTINGS } from './risk';
+
+/**
+ * The accounts an origin has been granted access to.
+ */
+export type Connection = {
+  addressIndices: number[];
+  // Ed25519 accounts are granted separately from the Secp256k1 ones.
+  ed25519AddressIndices?: number[];
+  connectedAt: number;
+};
+
+/**
+ * An account of the registry, named and ordered by the user.
+ */
+export type RegisteredAccount = {
+  addressIndex: number;
+  keyType: KeyType;
+  label: string;
+  // Hidden accounts are left out of the account lists given to sites.
+  hidden: boolean;
+};
+
+/**
+ * A Casper network the snap can sign for. Profiles are identified by their
+ * chain name.
+ */
+export type NetworkProfile = {
+  name: string;
+  chainName: string;
+  // URL of the JSON-RPC endpoint of a node of the network.
+  nodeUrl?: string;
+};
+
+export const DEFAULT_NETWORKS: NetworkProfile[] = [
+  {
+    name: 'Mainnet',
+    chainName: 'casper',
+    nodeUrl: 'https://node.mainnet.casper.network/rpc',
+  },
+  {
+    name: 'Testnet',
+    chainName: 'casper-test',
+    nodeUrl: 'https://node.testnet.casper.network/rpc',
+  },
+];
+
+/**
+ * A signing request answered by the user, kept in the audit log.
+ */
+export type HistoryEntry = {
+  method:
+    | 'casper_sign'
+    | 'casper_signBatch'
+    | 'casper_signIn'
+    | 'casper_signMessage'
+    | 'casper_signTypedData';
+  origin: string;
+  // Checksummed public key of the account asked to sign.
+  account: string;
+  // Milliseconds since the epoch.
+  timestamp: number;
+  decision: 'approved' | 'rejected';
+  // Details of the deploy, `null` for messages. Typed data and sign-in
+  // requests keep the chain name they were made for.
+  deployHash: string | null;
+  chainName: string | null;
+  deployType: string | null;
+  // Value of the `amount` argument in motes of native transfers and entry
+  // points, `null` for contract calls, whose amount is usually in tokens.
+  amount: string | null;
+};
+
+/**
+ * A submitted transaction whose execution is tracked by the snap.
+ */
+export type TrackedTransaction = {
+  transactionHash: string;
+  // Legacy deploys are queried with `info_get_deploy`, Transaction V1 with
+  // `info_get_transaction`.
+  isDeploy: boolean;
+  origin: string;
+  chainName: string;
+  // URL of the node the transaction was submitted to, which is polled.
+  nodeUrl: string;
+  // Milliseconds since the epoch.
+  submittedAt: number;
+  // End of the TTL of the transaction.
+  expiresAt: number;
+  status: 'pending' | 'succeeded' | 'failed' | 'expired';
+  // Error message of the execution of failed transactions.
+  errorMessage: string | null;
+};
+
+/**
+ * The preferences of the user, edited from the home page.
+ */
+export type Settings = {
+  // Allow sites to request signatures of raw hashes.
+  blindSigning: boolean;
+  // Query the node of the network for the balance shown when signing.
+  nodeQueries: boolean;
+  // `auto` follows the language of MetaMask.
+  language: 'auto' | Language;
+};
+
+/**
+ * The persisted state of the snap.
+ */
+export type SnapState = {
+  connections: Record<string, Connection>;
+  // The account registry, in the order chosen by the user.
+  accounts: RegisteredAccount[];
+  riskSettings: RiskSettings;
+  networks: NetworkProfile[];
+  // Chain name of the network used by sites that never switched network.
+  defaultNetwork: string;
+  // Chain name of the network selected by each origin.
+  activeNetworks: Record<string, string>;
+  settings: Settings;
+  // The audit log of the signing requests, newest first.
+  history: HistoryEntry[];
+  // The submitted transactions, newest first.
+  transactions: TrackedTransaction[];
+};
+
+const DEFAULT_STATE: SnapState = {
+  connections: {},
+  accounts: [],
+  riskSettings: DEFAULT_RISK_SETTINGS,
+  networks: DEFAULT_NETWORKS,
+  defaultNetwork: 'casper-test',
+  activeNetworks: {},
+  settings: {
+    blindSigning: false,
+    nodeQueries: false,
+    language: 'auto',
+  },
+  history: [],
+  transactions: [],
+};
+
+/**
+ * The last queued state update. Updates are chained so that each one reads the
+ * state written by the previous one, even when requests and cronjobs run
+ * concurrently.
+ */
+let pendingUpdate: Promise<unknown> = Promise.resolve();
+
+/**
+ * Get the persisted state of the snap, falling back to the default value of
+ * every missing field, including the fields of the settings.
+ *
+ * @returns The snap state.
+ */
+export async function getState(): Promise<SnapState> {
+  const state = await snap.request({
+    method: 'snap_manageState',
+    params: { operation: 'get' },
+  });
+  const stored = state as Partial<SnapState> | null;
+  // Settings saved before a field was added get the default of that field.
+  return {
+    ...DEFAULT_STATE,
+    ...stored,
+    riskSettings: { ...DEFAULT_STATE.riskSettings, ...stored?.riskSettings },
+    settings: { ...DEFAULT_STATE.settings, ...stored?.settings },
+  };
+}
+
+/**
+ * Persist the state of the snap.
+ *
+ * @param state - The new snap state.
+ */
+async function setState(state: SnapState) {
+  await snap.request({
+    method: 'snap_manageState',
+    params: { operation: 'update', newState: state },
+  });
+}
+
+/**
+ * Read, update and persist the state of the snap. Updates run one at a time,
+ * in the order they are requested, so that concurrent updates are not lost.
+ *
+ * @param updater - A function receiving the current state and returning the
+ * new one.
+ * @returns The new snap state.
+ */
+export async function updateState(
+  updater: (state: SnapState) => SnapState,
+): Promise<SnapState> {
+  const update = pendingUpdate.then(async () => {
+    const state = updater(await getState());
+    await setState(state);
+    return state;
+  });
+  // A failed update must not block the next ones.
+  pendingUpdate = update.catch(() => undefined);
+  return update;
+}
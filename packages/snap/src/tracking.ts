@@ -0,0 +1,213 @@
+import type { Transaction } from 'casper-js-sdk';
+
+import { CasperError } from './errors';
+import type { Messages } from './i18n';
+import { getMessages } from './i18n';
+import type { ExecutionStatus } from './node';
+import { getExecutionStatus } from './node';
+import type { TrackedTransaction } from './state';
+import { getState, updateState } from './state';
+
+/**
+ * The number of submitted transactions kept in state. The oldest transactions
+ * are dropped once the list is full, whether settled or not.
+ */
+export const MAX_TRACKED_TRANSACTIONS = 100;
+
+/**
+ * Time after the end of the TTL of a transaction, in milliseconds, before it
+ * is reported as expired, leaving the node time to finalize a block including
+ * it.
+ */
+export const EXPIRY_GRACE_PERIOD = 120_000;
+
+/**
+ * Maximum length of the execution error quoted in a failure notification.
+ * In-app notifications are limited to 500 characters.
+ */
+const MAX_ERROR_LENGTH = 300;
+
+/**
+ * A page of the tracked transactions.
+ */
+export type TrackedTransactionPage = {
+  transactions: TrackedTransaction[];
+  // Number of transactions matching the request, across all pages.
+  total: number;
+};
+
+/**
+ * Start tracking a transaction submitted to a node, dropping the oldest
+ * transactions past {@link MAX_TRACKED_TRANSACTIONS}.
+ *
+ * @param transaction - The submitted transaction.
+ * @param nodeUrl - URL of the node the transaction was submitted to.
+ * @param origin - Origin of the request.
+ */
+export async function trackTransaction(
+  transaction: Transaction,
+  nodeUrl: string,
+  origin: string,
+) {
+  const entry: TrackedTransaction = {
+    transactionHash: transaction.hash.toHex(),
+    isDeploy: transaction.getDeploy() !== undefined,
+    origin,
+    chainName: transaction.chainName,
+    nodeUrl,
+    submittedAt: Date.now(),
+    expiresAt: transaction.timestamp.date.getTime() + transaction.ttl.duration,
+    status: 'pending',
+    errorMessage: null,
+  };
+  await updateState((state) => ({
+    ...state,
+    transactions: [
+      entry,
+      ...state.transactions.filter(
+        (tracked) => tracked.transactionHash !== entry.transactionHash,
+      ),
+    ].slice(0, MAX_TRACKED_TRANSACTIONS),
+  }));
+}
+
+/**
+ * Get a page of the tracked transactions, newest first.
+ *
+ * @param offset - Number of transactions to skip.
+ * @param limit - Maximum number of transactions to return.
+ * @param origin - Only return the transactions submitted by this origin. All
+ * transactions are returned when omitted.
+ * @returns The page of transactions and the total number of transactions.
+ */
+export async function getTrackedTransactions(
+  offset: number,
+  limit: number,
+  origin?: string,
+): Promise<TrackedTransactionPage> {
+  const { transactions } = await getState();
+  const matching =
+    origin === undefined
+      ? transactions
+      : transactions.filter((tracked) => tracked.origin === origin);
+  return {
+    transactions: matching.slice(offset, offset + limit),
+    total: matching.length,
+  };
+}
+
+/**
+ * Get the notification sent when a transaction settles.
+ *
+ * @param tracked - The settled transaction.
+ * @param messages - The strings of the language of the user.
+ * @returns The notification message.
+ */
+function getNotificationMessage(
+  tracked: TrackedTransaction,
+  messages: Messages,
+) {
+  const { transactionHash, chainName, errorMessage } = tracked;
+  const hash = `${transactionHash.slice(0, 8)}...${transactionHash.slice(-8)}`;
+  if (tracked.status === 'succeeded') {
+    return messages.deploySucceeded(hash, chainName);
+  }
+  if (tracked.status === 'failed') {
+    const reason =
+      errorMessage && errorMessage.length > MAX_ERROR_LENGTH
+        ? `${errorMessage.slice(0, MAX_ERROR_LENGTH)}...`
+        : errorMessage;
+    return messages.deployFailed(
+      hash,
+      chainName,
+      reason ?? messages.unknownError,
+    );
+  }
+  return messages.deployExpired(hash, chainName);
+}
+
+/**
+ * Get the new status of a pending transaction from the node it was submitted
+ * to. A transaction the node does not know is treated as not executed yet.
+ *
+ * @param tracked - The pending transaction.
+ * @param now - The current time, in milliseconds since the epoch.
+ * @returns The transaction with its new status, or `null` if it is unchanged
+ * or the node cannot be reached.
+ */
+async function checkTransaction(
+  tracked: TrackedTransaction,
+  now: number,
+): Promise<TrackedTransaction | null> {
+  let execution: ExecutionStatus;
+  try {
+    execution = await getExecutionStatus(
+      tracked.nodeUrl,
+      tracked.transactionHash,
+      tracked.isDeploy,
+    );
+  } catch (error) {
+    const data = error instanceof CasperError ? error.data : undefined;
+    if (typeof data?.code !== 'number') {
+      return null;
+    }
+    execution = { status: 'pending' };
+  }
+
+  if (execution.status === 'failed') {
+    return {
+      ...tracked,
+      status: 'failed',
+      errorMessage: execution.errorMessage,
+    };
+  }
+  if (execution.status === 'succeeded') {
+    return { ...tracked, status: 'succeeded' };
+  }
+  if (tracked.expiresAt + EXPIRY_GRACE_PERIOD <= now) {
+    return { ...tracked, status: 'expired' };
+  }
+  return null;
+}
+
+/**
+ * Poll the nodes for the outcome of the pending transactions, and notify the
+ * user of every transaction that succeeded, failed or expired. Run by the
+ * `checkTransactions` cronjob.
+ *
+ * @param now - The current time, in milliseconds since the epoch.
+ */
+export async function checkTransactions(now = Date.now()) {
+  const { transactions } = await getState();
+  const settled = new Map<string, TrackedTransaction>();
+  for (const tracked of transactions) {
+    if (tracked.status === 'pending') {
+      const updated = await checkTransaction(tracked, now);
+      if (updated) {
+        settled.set(updated.transactionHash, updated);
+      }
+    }
+  }
+  if (settled.size === 0) {
+    return;
+  }
+
+  // Transactions submitted while the nodes were polled are kept.
+  await updateState((state) => ({
+    ...state,
+    transactions: state.transactions.map(
+      (tracked) => settled.get(tracked.transactionHash) ?? tracked,
+    ),
+  }));
+  const { settings } = await getState();
+  const messages = await getMessages(settings.language);
+  for (const tracked of settled.values()) {
+    await snap.request({
+      method: 'snap_notify',
+      params: {
+        type: 'inApp',
+        message: getNotificationMessage(tracked, messages),
+      },
+    });
+  }
+}
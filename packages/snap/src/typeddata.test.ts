@@ -0,0 +1,113 @@
+import { expect } from '@jest/globals';
+import { Conversions } from 'casper-js-sdk';
+
+import { CasperErrorCode } from './errors';
+import type { TypedData } from './typeddata';
+import {
+  encodeTypedData,
+  encodeTypedDataDomain,
+  encodeTypedDataMessage,
+  TYPED_DATA_PREFIX,
+} from './typeddata';
+
+const TYPED_DATA: TypedData = {
+  domain: {
+    name: 'Order book',
+    version: '1',
+    chainName: 'casper-test',
+  },
+  primaryType: 'Order',
+  message: [
+    { name: 'amount', type: 'U64', value: '42' },
+    { name: 'buy', type: 'Bool', value: true },
+  ],
+};
+
+describe('encodeTypedDataDomain', () => {
+  it('serializes the domain as CLValues', () => {
+    expect(
+      Conversions.encodeBase16(encodeTypedDataDomain(TYPED_DATA.domain)),
+    ).toBe(
+      [
+        '0a0000004f7264657220626f6f6b',
+        '0100000031',
+        '0b0000006361737065722d74657374',
+        '00',
+      ].join(''),
+    );
+  });
+
+  it('serializes the verifying contract as an option', () => {
+    const verifyingContract = 'ab'.repeat(32);
+
+    expect(
+      Conversions.encodeBase16(
+        encodeTypedDataDomain({ ...TYPED_DATA.domain, verifyingContract }),
+      ).endsWith(`01${verifyingContract}`),
+    ).toBe(true);
+  });
+});
+
+describe('encodeTypedDataMessage', () => {
+  it('serializes the fields in order', () => {
+    expect(
+      Conversions.encodeBase16(
+        encodeTypedDataMessage(TYPED_DATA.primaryType, TYPED_DATA.message),
+      ),
+    ).toBe(
+      [
+        '050000004f72646572',
+        '06000000616d6f756e74',
+        '03000000553634',
+        '2a00000000000000',
+        '03000000627579',
+        '04000000426f6f6c',
+        '01',
+      ].join(''),
+    );
+  });
+
+  it('rejects a value that does not fit its type', () => {
+    expect(() =>
+      encodeTypedDataMessage('Order', [
+        { name: 'amount', type: 'U8', value: '256' },
+      ]),
+    ).toThrow(
+      expect.objectContaining({
+        code: CasperErrorCode.InvalidTypedData,
+        data: {
+          field: 'amount',
+          type: 'U8',
+          reason: '256 does not fit in a U8.',
+        },
+      }),
+    );
+  });
+
+  it('rejects a value of the wrong kind', () => {
+    expect(() =>
+      encodeTypedDataMessage('Order', [
+        { name: 'buy', type: 'Bool', value: 'true' },
+      ]),
+    ).toThrow('Invalid value for the typed data field "buy".');
+  });
+});
+
+describe('encodeTypedData', () => {
+  it('prefixes the hashes of the domain and message', () => {
+    const bytes = encodeTypedData(TYPED_DATA);
+    const prefix = new TextEncoder().encode(TYPED_DATA_PREFIX);
+
+    expect(bytes).toHaveLength(prefix.length + 64);
+    expect(bytes.slice(0, prefix.length)).toStrictEqual(prefix);
+  });
+
+  it('depends on the domain', () => {
+    expect(
+      encodeTypedData({
+        ...TYPED_DATA,
+        domain: { ...TYPED_DATA.domain, name: 'Another app' },
+      }),
+    ).not.toStrictEqual(encodeTypedData(TYPED_DATA));
+  });
+});
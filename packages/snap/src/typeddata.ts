@@ -0,0 +1,264 @@
+import { BigNumber } from '@ethersproject/bignumber';
+import type { Infer } from '@metamask/superstruct';
+import {
+  array,
+  boolean,
+  enums,
+  object,
+  optional,
+  pattern,
+  size,
+  string,
+  union,
+} from '@metamask/superstruct';
+import { CLValue, Conversions, PublicKey } from 'casper-js-sdk';
+import { blake2b } from 'ethereum-cryptography/blake2b';
+
+import { CasperError, CasperErrorCode, getErrorMessage } from './errors';
+
+/**
+ * The bytes prepended to the hashes of a typed data payload before it is
+ * signed, so that a typed data signature can never be a valid deploy or
+ * message signature.
+ */
+export const TYPED_DATA_PREFIX = 'Casper Typed Data:\n';
+
+/**
+ * The CLTypes a typed data field may have.
+ */
+export const TYPED_DATA_TYPES = [
+  'Bool',
+  'I32',
+  'I64',
+  'U8',
+  'U32',
+  'U64',
+  'U128',
+  'U256',
+  'U512',
+  'String',
+  'PublicKey',
+  'ByteArray32',
+] as const;
+
+/**
+ * The CLType of a typed data field.
+ */
+export type TypedDataType = (typeof TYPED_DATA_TYPES)[number];
+
+/**
+ * The app a typed data payload belongs to. A signature made for one domain is
+ * never valid for another.
+ */
+export const TypedDataDomainStruct = object({
+  name: size(string(), 1, 64),
+  version: size(string(), 1, 32),
+  chainName: size(string(), 1, 64),
+  // Hex encoded hash of the contract the payload is meant for.
+  verifyingContract: optional(pattern(string(), /^[0-9a-fA-F]{64}$/u)),
+});
+
+/**
+ * A field of a typed data message. Integers are given as decimal strings, so
+ * that 64-bit and larger values survive JSON.
+ */
+export const TypedDataFieldStruct = object({
+  name: size(string(), 1, 64),
+  type: enums(TYPED_DATA_TYPES),
+  value: union([string(), boolean()]),
+});
+
+/**
+ * A typed data payload: the domain, the name of the message type and its
+ * fields, in order.
+ */
+export const TypedDataStruct = object({
+  domain: TypedDataDomainStruct,
+  primaryType: size(string(), 1, 64),
+  message: size(array(TypedDataFieldStruct), 1, 50),
+});
+
+export type TypedDataDomain = Infer<typeof TypedDataDomainStruct>;
+
+export type TypedDataField = Infer<typeof TypedDataFieldStruct>;
+
+export type TypedData = Infer<typeof TypedDataStruct>;
+
+const INTEGER_RANGES: Partial<
+  Record<TypedDataType, { bits: number; signed: boolean }>
+> = {
+  I32: { bits: 32, signed: true },
+  I64: { bits: 64, signed: true },
+  U8: { bits: 8, signed: false },
+  U32: { bits: 32, signed: false },
+  U64: { bits: 64, signed: false },
+  U128: { bits: 128, signed: false },
+  U256: { bits: 256, signed: false },
+  U512: { bits: 512, signed: false },
+};
+
+/**
+ * Parse a decimal integer and check it fits its CLType.
+ *
+ * @param value - The decimal string.
+ * @param type - The integer CLType.
+ * @returns The integer.
+ * @throws If the value is not an integer in the range of the type.
+ */
+function parseInteger(value: string, type: TypedDataType) {
+  const range = INTEGER_RANGES[type];
+  if (!range || !/^-?\d+$/u.test(value)) {
+    throw new Error(`Expected a decimal integer, got "${value}".`);
+  }
+  const integer = BigNumber.from(value);
+  const limit = BigNumber.from(2).pow(
+    range.signed ? range.bits - 1 : range.bits,
+  );
+  const lowest = range.signed ? limit.mul(-1) : BigNumber.from(0);
+  if (integer.lt(lowest) || integer.gte(limit)) {
+    throw new Error(`${value} does not fit in a ${type}.`);
+  }
+  return integer;
+}
+
+/**
+ * Build the CLValue of a typed data field.
+ *
+ * @param field - The typed data field.
+ * @param field.type - The CLType of the field.
+ * @param field.value - The value of the field.
+ * @returns The CLValue.
+ * @throws If the value does not match the type of the field.
+ */
+function createFieldValue({ type, value }: TypedDataField): CLValue {
+  if (type === 'Bool') {
+    if (typeof value !== 'boolean') {
+      throw new Error('Expected a boolean.');
+    }
+    return CLValue.newCLValueBool(value);
+  }
+  if (typeof value !== 'string') {
+    throw new Error('Expected a string.');
+  }
+  switch (type) {
+    case 'String':
+      return CLValue.newCLString(value);
+    case 'PublicKey':
+      return CLValue.newCLPublicKey(PublicKey.fromHex(value));
+    case 'ByteArray32':
+      if (!/^[0-9a-fA-F]{64}$/u.test(value)) {
+        throw new Error('Expected 32 hex encoded bytes.');
+      }
+      return CLValue.newCLByteArray(Conversions.decodeBase16(value));
+    case 'I32':
+      return CLValue.newCLInt32(parseInteger(value, type));
+    case 'I64':
+      return CLValue.newCLInt64(parseInteger(value, type));
+    case 'U8':
+      return CLValue.newCLUint8(parseInteger(value, type));
+    case 'U32':
+      return CLValue.newCLUInt32(parseInteger(value, type));
+    case 'U64':
+      return CLValue.newCLUint64(parseInteger(value, type));
+    case 'U128':
+      return CLValue.newCLUInt128(parseInteger(value, type));
+    case 'U256':
+      return CLValue.newCLUInt256(parseInteger(value, type));
+    default:
+      return CLValue.newCLUInt512(parseInteger(value, type));
+  }
+}
+
+/**
+ * Concatenate byte arrays.
+ *
+ * @param parts - The byte arrays.
+ * @returns The concatenated bytes.
+ */
+function concatBytes(parts: Uint8Array[]) {
+  return new Uint8Array(parts.flatMap((part) => [...part]));
+}
+
+/**
+ * Serialize a string as a CLValue.
+ *
+ * @param value - The string.
+ * @returns The serialized string.
+ */
+function stringBytes(value: string) {
+  return CLValue.newCLString(value).bytes();
+}
+
+/**
+ * Serialize the domain of a typed data payload: its name, version and chain
+ * name as CLValue strings, followed by its verifying contract as an
+ * `Option<ByteArray32>`.
+ *
+ * @param domain - The typed data domain.
+ * @returns The serialized domain.
+ */
+export function encodeTypedDataDomain(domain: TypedDataDomain) {
+  const { verifyingContract } = domain;
+  return concatBytes([
+    stringBytes(domain.name),
+    stringBytes(domain.version),
+    stringBytes(domain.chainName),
+    verifyingContract
+      ? concatBytes([
+          Uint8Array.of(1),
+          Conversions.decodeBase16(verifyingContract),
+        ])
+      : Uint8Array.of(0),
+  ]);
+}
+
+/**
+ * Serialize the message of a typed data payload: the primary type as a CLValue
+ * string, then for each field, in order, its name and CLType name as CLValue
+ * strings followed by its value serialized as a CLValue of that type.
+ *
+ * @param primaryType - The name of the message type.
+ * @param message - The message fields.
+ * @returns The serialized message.
+ * @throws A `CasperError` if a value does not match the type of its field.
+ */
+export function encodeTypedDataMessage(
+  primaryType: string,
+  message: TypedDataField[],
+) {
+  const parts = [stringBytes(primaryType)];
+  for (const field of message) {
+    let value: CLValue;
+    try {
+      value = createFieldValue(field);
+    } catch (error) {
+      throw new CasperError(
+        CasperErrorCode.InvalidTypedData,
+        `Invalid value for the typed data field "${field.name}".`,
+        { field: field.name, type: field.type, reason: getErrorMessage(error) },
+      );
+    }
+    parts.push(stringBytes(field.name), stringBytes(field.type), value.bytes());
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Get the bytes signed for a typed data payload: the UTF-8 encoded
+ * {@link TYPED_DATA_PREFIX}, followed by the blake2b-256 hashes of the
+ * serialized domain and of the serialized message.
+ *
+ * @param typedData - The typed data payload.
+ * @returns The bytes to sign.
+ * @throws A `CasperError` if a value does not match the type of its field.
+ */
+export function encodeTypedData(typedData: TypedData) {
+  return concatBytes([
+    new TextEncoder().encode(TYPED_DATA_PREFIX),
+    blake2b(encodeTypedDataDomain(typedData.domain), 32),
+    blake2b(
+      encodeTypedDataMessage(typedData.primaryType, typedData.message),
+      32,
+    ),
+  ]);
+}
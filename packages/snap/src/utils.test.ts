@@ -0,0 +1,395 @@
+/* eslint-disable @typescript-eslint/naming-convention */
+import { expect } from '@jest/globals';
+import {
+  Args,
+  CLTypePublicKey,
+  CLValue,
+  CLValueOption,
+  CLValueUInt512,
+  CLValueUInt64,
+  CLValueUInt8,
+  Deploy,
+  DeployHeader,
+  Duration,
+  ExecutableDeployItem,
+  FixedMode,
+  InitiatorAddr,
+  ModuleBytes,
+  PaymentLimitedMode,
+  PricingMode,
+  PublicKey,
+  Timestamp,
+  Transaction,
+  TransactionEntryPoint,
+  TransactionEntryPointEnum,
+  TransactionScheduling,
+  TransactionTarget,
+  TransactionV1,
+  TransactionV1Payload,
+  TransferDeployItem,
+} from 'casper-js-sdk';
+
+import { parsePayment, transactionToObject } from './utils';
+
+const SENDER =
+  '02025e3cc431e77e52e39e590af36a5dcb7e6ef1e22af86bfd8f022eeea8fccb6740';
+
+const VALIDATOR =
+  '0202f5a92ab6da536e7b1a351406f3744224bec85d7acbab1497b65de48a1a707b64';
+
+const NEW_VALIDATOR =
+  '010068920746ecf5870e18911ee1fc5db975e0e97fffcbbf52f5045ad6c9838d2f';
+
+/**
+ * Create a CLValue holding a public key.
+ *
+ * @param publicKey - Public Key hex string.
+ * @returns The CLValue.
+ */
+function publicKeyArg(publicKey: string) {
+  return CLValue.newCLPublicKey(PublicKey.fromHex(publicKey));
+}
+
+/**
+ * Create the expected decoded value of a scalar argument.
+ *
+ * @param type - The CLType name.
+ * @param value - The formatted value.
+ * @returns The decoded value.
+ */
+function scalar(type: string, value: string) {
+  return { type, value };
+}
+
+/**
+ * Create the fixed pricing mode used by the site.
+ *
+ * @returns The pricing mode.
+ */
+function createFixedPricingMode() {
+  const pricingMode = new PricingMode();
+  const fixedMode = new FixedMode();
+  fixedMode.gasPriceTolerance = 1;
+  fixedMode.additionalComputationFactor = 0;
+  pricingMode.fixed = fixedMode;
+  return pricingMode;
+}
+
+/**
+ * Create a native transaction, the same way the site does.
+ *
+ * @param entryPoint - The native entry point.
+ * @param args - The runtime arguments.
+ * @param pricingMode - The pricing mode.
+ * @returns The transaction, parsed back from its JSON representation.
+ */
+function createNativeTransaction(
+  entryPoint: TransactionEntryPointEnum,
+  args: Record<string, CLValue>,
+  pricingMode = createFixedPricingMode(),
+) {
+  const transactionPayload = TransactionV1Payload.build({
+    initiatorAddr: new InitiatorAddr(PublicKey.fromHex(SENDER)),
+    ttl: new Duration(1800000),
+    args: Args.fromMap(args),
+    timestamp: new Timestamp(new Date()),
+    entryPoint: new TransactionEntryPoint(entryPoint),
+    scheduling: new TransactionScheduling({}),
+    transactionTarget: new TransactionTarget({}),
+    chainName: 'casper-test',
+    pricingMode,
+  });
+
+  return Transaction.fromJson(
+    TransactionV1.toJson(TransactionV1.makeTransactionV1(transactionPayload)),
+  );
+}
+
+/**
+ * Create a legacy transfer deploy.
+ *
+ * @param payment - The payment item.
+ * @param gasPrice - The gas price of the deploy.
+ * @returns The deploy, parsed back from its JSON representation.
+ */
+function createLegacyDeploy(payment: ExecutableDeployItem, gasPrice = 1) {
+  const session = new ExecutableDeployItem();
+  session.transfer = TransferDeployItem.newTransfer(
+    '2500000000',
+    PublicKey.fromHex(VALIDATOR),
+    undefined,
+    35,
+  );
+
+  const deployHeader = DeployHeader.default();
+  deployHeader.account = PublicKey.fromHex(SENDER);
+  deployHeader.chainName = 'casper-test';
+  deployHeader.gasPrice = gasPrice;
+
+  return Transaction.fromJson(
+    Deploy.toJson(Deploy.makeDeploy(deployHeader, payment, session)),
+  );
+}
+
+describe('transactionToObject', () => {
+  it('decodes a native transfer', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.Transfer,
+      {
+        target: publicKeyArg(VALIDATOR),
+        amount: CLValueUInt512.newCLUInt512('2500000000'),
+        id: CLValueOption.newCLOption(CLValueUInt64.newCLUint64(3)),
+      },
+    );
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployType).toBe('Transfer');
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Recipient: scalar('PublicKey', VALIDATOR),
+      Amount: scalar('U512', '2.5 CSPR'),
+      Motes: scalar('U512', '2500000000'),
+      'Transfer ID': scalar('Option<U64>', '3'),
+    });
+  });
+
+  it('decodes a native add bid', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.AddBid,
+      {
+        public_key: publicKeyArg(VALIDATOR),
+        amount: CLValueUInt512.newCLUInt512('500000000000000'),
+        delegation_rate: CLValueUInt8.newCLUint8(10),
+        minimum_delegation_amount: CLValueUInt64.newCLUint64('500000000000'),
+      },
+    );
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployType).toBe('Add Bid');
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Validator: scalar('PublicKey', VALIDATOR),
+      Amount: scalar('U512', '500000.0 CSPR'),
+      Motes: scalar('U512', '500000000000000'),
+      'Delegation Rate': scalar('U8', '10%'),
+      'Minimum Delegation': scalar('U64', '500.0 CSPR'),
+      'Minimum Delegation Motes': scalar('U64', '500000000000'),
+    });
+  });
+
+  it.each([
+    [TransactionEntryPointEnum.Delegate, 'Delegate'],
+    [TransactionEntryPointEnum.Undelegate, 'Undelegate'],
+  ])('decodes a native %s', (entryPoint, title) => {
+    const transaction = createNativeTransaction(entryPoint, {
+      delegator: publicKeyArg(SENDER),
+      validator: publicKeyArg(VALIDATOR),
+      amount: CLValueUInt512.newCLUInt512('1000000000'),
+    });
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployType).toBe(title);
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Delegator: scalar('PublicKey', SENDER),
+      Validator: scalar('PublicKey', VALIDATOR),
+      Amount: scalar('U512', '1.0 CSPR'),
+      Motes: scalar('U512', '1000000000'),
+    });
+  });
+
+  it('decodes a native redelegate', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.Redelegate,
+      {
+        delegator: publicKeyArg(SENDER),
+        validator: publicKeyArg(VALIDATOR),
+        amount: CLValueUInt512.newCLUInt512('1000000000'),
+        new_validator: publicKeyArg(NEW_VALIDATOR),
+      },
+    );
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployType).toBe('Redelegate');
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Delegator: scalar('PublicKey', SENDER),
+      Validator: scalar('PublicKey', VALIDATOR),
+      'New Validator': scalar('PublicKey', NEW_VALIDATOR),
+      Amount: scalar('U512', '1.0 CSPR'),
+      Motes: scalar('U512', '1000000000'),
+    });
+  });
+
+  it('decodes a native withdraw bid', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.WithdrawBid,
+      {
+        public_key: publicKeyArg(VALIDATOR),
+        amount: CLValueUInt512.newCLUInt512('1000000000'),
+      },
+    );
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployType).toBe('Withdraw Bid');
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Validator: scalar('PublicKey', VALIDATOR),
+      Amount: scalar('U512', '1.0 CSPR'),
+      Motes: scalar('U512', '1000000000'),
+    });
+  });
+
+  it('decodes a native activate bid', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.ActivateBid,
+      { validator: publicKeyArg(VALIDATOR) },
+    );
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployType).toBe('Activate Bid');
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Validator: scalar('PublicKey', VALIDATOR),
+    });
+  });
+
+  it('decodes a native change bid public key', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.ChangeBidPublicKey,
+      {
+        public_key: publicKeyArg(VALIDATOR),
+        new_public_key: publicKeyArg(NEW_VALIDATOR),
+      },
+    );
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployType).toBe('Change Bid Public Key');
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Validator: scalar('PublicKey', VALIDATOR),
+      'New Public Key': scalar('PublicKey', NEW_VALIDATOR),
+    });
+  });
+
+  it('decodes a native cancel reservations', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.CancelReservations,
+      {
+        validator: publicKeyArg(VALIDATOR),
+        delegators: CLValue.newCLList(CLTypePublicKey, [
+          publicKeyArg(SENDER),
+          publicKeyArg(NEW_VALIDATOR),
+        ]),
+      },
+    );
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployType).toBe('Cancel Reservations');
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Validator: scalar('PublicKey', VALIDATOR),
+      Delegators: {
+        type: 'List<PublicKey>',
+        children: [
+          { label: '[0]', node: scalar('PublicKey', SENDER) },
+          { label: '[1]', node: scalar('PublicKey', NEW_VALIDATOR) },
+        ],
+      },
+    });
+  });
+
+  it('keeps arguments unknown to a native entry point', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.ActivateBid,
+      {
+        validator: publicKeyArg(VALIDATOR),
+        extra: CLValueUInt8.newCLUint8(1),
+      },
+    );
+
+    const deployInfo = transactionToObject(transaction, SENDER);
+    expect(deployInfo.deployArgs).toStrictEqual({
+      Validator: scalar('PublicKey', VALIDATOR),
+      extra: scalar('U8', '1'),
+    });
+  });
+});
+
+describe('parsePayment', () => {
+  it('decodes a legacy standard payment', () => {
+    const transaction = createLegacyDeploy(
+      ExecutableDeployItem.standardPayment('100000000'),
+      2,
+    );
+
+    expect(parsePayment(transaction)).toStrictEqual({
+      paymentType: 'Standard',
+      fields: {
+        'Payment Amount': '0.1 CSPR',
+        'Payment Motes': '100000000',
+        'Gas Price': '2',
+      },
+      estimatedMaxCost: '0.2 CSPR (200000000 motes)',
+      maxCost: '200000000',
+    });
+    expect(transactionToObject(transaction, SENDER).payment).toStrictEqual(
+      parsePayment(transaction),
+    );
+  });
+
+  it('flags a legacy custom payment code', () => {
+    const payment = new ExecutableDeployItem();
+    payment.moduleBytes = new ModuleBytes(
+      new Uint8Array([0, 97, 115, 109]),
+      Args.fromMap({ amount: CLValueUInt512.newCLUInt512('3000000000') }),
+    );
+    const transaction = createLegacyDeploy(payment);
+
+    expect(parsePayment(transaction)).toStrictEqual({
+      paymentType: 'Custom',
+      fields: {
+        'Payment Amount': '3.0 CSPR',
+        'Payment Motes': '3000000000',
+        'Gas Price': '1',
+        'Payment Code Size': '4 bytes',
+      },
+      estimatedMaxCost: '3.0 CSPR (3000000000 motes)',
+      maxCost: '3000000000',
+      warning: expect.stringContaining('custom payment code'),
+    });
+  });
+
+  it('estimates the maximum cost of a payment limited transaction', () => {
+    const pricingMode = new PricingMode();
+    const paymentLimited = new PaymentLimitedMode();
+    paymentLimited.gasPriceTolerance = 3;
+    paymentLimited.paymentAmount = 2500000000;
+    paymentLimited.standardPayment = true;
+    pricingMode.paymentLimited = paymentLimited;
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.ActivateBid,
+      { validator: publicKeyArg(VALIDATOR) },
+      pricingMode,
+    );
+
+    expect(parsePayment(transaction)).toStrictEqual({
+      paymentType: 'Limited',
+      fields: {
+        'Gas price tolerance': '3',
+        'Payment Amount': '2.5 CSPR',
+        'Payment Motes': '2500000000',
+      },
+      estimatedMaxCost: '7.5 CSPR (7500000000 motes)',
+      maxCost: '7500000000',
+    });
+  });
+
+  it('decodes a fixed payment', () => {
+    const transaction = createNativeTransaction(
+      TransactionEntryPointEnum.ActivateBid,
+      { validator: publicKeyArg(VALIDATOR) },
+    );
+
+    expect(parsePayment(transaction)).toStrictEqual({
+      paymentType: 'Fixed',
+      fields: {
+        'Gas price tolerance': '1',
+        'Additional Computation Power': '0',
+      },
+      estimatedMaxCost: 'Determined by the network',
+    });
+  });
+});
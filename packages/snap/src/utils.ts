@@ -1,112 +1,43 @@
-/* eslint-disable no-case-declarations */
-import { FixedNumber } from '@ethersproject/bignumber';
-import type {
-  CLValue,
-  CLValueTuple1,
-  CLValueList,
-  CLValueMap,
-  CLValueTuple2,
-  CLValueTuple3,
-  CLValueByteArray,
-  CLValueOption,
-  URef,
-  Key,
-} from 'casper-js-sdk';
+import { BigNumber, FixedNumber } from '@ethersproject/bignumber';
+import type { Json } from '@metamask/snaps-sdk';
+import type { Args, Deploy } from 'casper-js-sdk';
 import {
   Conversions,
   Transaction,
-  AccountHash,
+  TransactionEntryPointEnum,
   PublicKey,
-  TypeID,
 } from 'casper-js-sdk';
-import type { CLValueResult } from 'casper-js-sdk/dist/types/clvalue/Result';
 import type { TransferDeployItem } from 'casper-js-sdk/dist/types/ExecutableDeployItem';
 
+import type { CLValueNode } from './clvalue';
+import { parseCLValue } from './clvalue';
+import { CasperError, CasperErrorCode } from './errors';
+
 /**
- * Sanitise nested lists.
+ * Parse runtime arguments into typed trees, keyed by argument name.
  *
- * @param value - A value from a list.
- * @returns Sanitised value.
+ * @param args - Runtime arguments of a deploy or transaction.
+ * @returns The decoded arguments.
  */
-function sanitiseNestedLists(value: any) {
-  const parsedValue = parseDeployArg(value);
-  if (Array.isArray(parsedValue)) {
-    const parsedType = value.vectorType;
-    return `<${parsedType as string}>[...]`;
-  }
-  return parsedValue;
+function parseArgs(args: Args): Record<string, CLValueNode> {
+  const parsedArgs: Record<string, CLValueNode> = {};
+  args.args.forEach((argument, key) => {
+    parsedArgs[key] = parseCLValue(argument);
+  });
+  return parsedArgs;
 }
 
 /**
- * Parse a deploy argument.
+ * Format an amount of motes argument in CSPR, keeping its CLType.
  *
- * @param arg - A CLValue argument from a deploy.
- * @returns Parsed argument to a human-readable string.
+ * @param amount - The decoded amount argument.
+ * @returns The amount in CSPR.
  */
-function parseDeployArg(arg: unknown): string | any[] {
-  const tag = (arg as CLValue).type.getTypeID();
-  switch (tag) {
-    case TypeID.Unit:
-      return String('CLValue Unit');
-
-    case TypeID.Key:
-      return (arg as Key).toString();
-
-    case TypeID.URef:
-      return (arg as URef).toString();
-
-    case TypeID.Option:
-      const option = arg as CLValue;
-      if (!option.option?.isEmpty()) {
-        return parseDeployArg(option.option?.value());
-      }
-      return `${option.toString()} ${option.type?.toString() ?? ''}`;
-
-    case TypeID.List:
-      return (arg as CLValueList).elements.map((member: any) =>
-        sanitiseNestedLists(member),
-      );
-
-    case TypeID.ByteArray:
-      return (arg as CLValueByteArray).toString();
-
-    case TypeID.Result:
-      const result = arg as CLValueResult;
-      const status = result.isSuccess ? 'OK:' : 'ERR:';
-      const parsed = parseDeployArg(result.value());
-      return `${status} ${parsed as string}`;
-
-    case TypeID.Map:
-      const map = (arg as CLValueMap).getMap();
-      let mapParsedString = '';
-      for (const [key, value] of Object.entries(map)) {
-        mapParsedString += `${key}=${parseDeployArg(value) as string}`;
-      }
-      return mapParsedString;
-
-    case TypeID.Tuple1:
-      return parseDeployArg((arg as CLValueTuple1).value());
-
-    case TypeID.Tuple2:
-      return (arg as CLValueTuple2)
-        .value()
-        .map((member: any) => sanitiseNestedLists(member));
-
-    case TypeID.Tuple3:
-      return (arg as CLValueTuple3)
-        .value()
-        .map((member: any) => sanitiseNestedLists(member));
-
-    case TypeID.PublicKey:
-      return (arg as CLValue).publicKey?.toHex() ?? '';
-
-    default:
-      // Special handling as there is no TypeID for CLAccountHash
-      if (arg instanceof AccountHash) {
-        return arg.toPrefixedString();
-      }
-      return (arg as CLValue).toString();
-  }
+function formatMotesArg(amount: CLValueNode): CLValueNode {
+  return {
+    type: amount.type,
+    value: `${convertMotesToCasper(amount.value ?? '')} CSPR`,
+  };
 }
 
 /**
@@ -117,22 +48,179 @@ function parseDeployArg(arg: unknown): string | any[] {
  */
 function parseTransferData(
   transferDeploy: TransferDeployItem,
-): Record<string, unknown> {
-  const transferArgs = {} as any;
+): Record<string, CLValueNode> {
+  const transferArgs: Record<string, CLValueNode> = {};
 
   // Target can either be a hex formatted public key or an account hash
+  const target = transferDeploy.args.args.get('target');
+  if (target) {
+    transferArgs.Recipient = parseCLValue(target);
+  }
+
+  const amount = transferDeploy.args.args.get('amount');
+  if (amount) {
+    const amountNode = parseCLValue(amount);
+    transferArgs.Amount = formatMotesArg(amountNode);
+    transferArgs.Motes = amountNode;
+  }
+
+  const id = transferDeploy.args.args.get('id');
+  if (id) {
+    transferArgs['Transfer ID'] = parseCLValue(id);
+  }
 
-  transferArgs.Recipient = transferDeploy.args.args.get('target')?.toString();
+  return transferArgs;
+}
+
+/**
+ * Describes how a runtime argument of a native entry point is displayed.
+ */
+type NativeArgDescriptor = {
+  name: string;
+  label: string;
+  // When set, the argument is an amount of motes also displayed in CSPR.
+  motesLabel?: string;
+  suffix?: string;
+};
 
-  const amount = transferDeploy?.args.args.get('amount')?.toString() ?? '';
+/**
+ * Describes how a native entry point is displayed.
+ */
+type NativeEntryPointDescriptor = {
+  title: string;
+  args: NativeArgDescriptor[];
+};
 
-  const id = transferDeploy?.args.args.get('id')?.toString();
+const AMOUNT_ARG: NativeArgDescriptor = {
+  name: 'amount',
+  label: 'Amount',
+  motesLabel: 'Motes',
+};
 
-  transferArgs.Amount = `${convertMotesToCasper(amount)} CSPR`;
-  transferArgs.Motes = `${amount.toString()}`;
-  transferArgs['Transfer ID'] = id;
+const NATIVE_ENTRY_POINTS: Partial<
+  Record<TransactionEntryPointEnum, NativeEntryPointDescriptor>
+> = {
+  [TransactionEntryPointEnum.Transfer]: {
+    title: 'Transfer',
+    args: [
+      { name: 'target', label: 'Recipient' },
+      AMOUNT_ARG,
+      { name: 'id', label: 'Transfer ID' },
+      { name: 'source', label: 'Source' },
+    ],
+  },
+  [TransactionEntryPointEnum.AddBid]: {
+    title: 'Add Bid',
+    args: [
+      { name: 'public_key', label: 'Validator' },
+      AMOUNT_ARG,
+      { name: 'delegation_rate', label: 'Delegation Rate', suffix: '%' },
+      {
+        name: 'minimum_delegation_amount',
+        label: 'Minimum Delegation',
+        motesLabel: 'Minimum Delegation Motes',
+      },
+      {
+        name: 'maximum_delegation_amount',
+        label: 'Maximum Delegation',
+        motesLabel: 'Maximum Delegation Motes',
+      },
+      { name: 'reserved_slots', label: 'Reserved Slots' },
+    ],
+  },
+  [TransactionEntryPointEnum.WithdrawBid]: {
+    title: 'Withdraw Bid',
+    args: [{ name: 'public_key', label: 'Validator' }, AMOUNT_ARG],
+  },
+  [TransactionEntryPointEnum.Delegate]: {
+    title: 'Delegate',
+    args: [
+      { name: 'delegator', label: 'Delegator' },
+      { name: 'validator', label: 'Validator' },
+      AMOUNT_ARG,
+    ],
+  },
+  [TransactionEntryPointEnum.Undelegate]: {
+    title: 'Undelegate',
+    args: [
+      { name: 'delegator', label: 'Delegator' },
+      { name: 'validator', label: 'Validator' },
+      AMOUNT_ARG,
+    ],
+  },
+  [TransactionEntryPointEnum.Redelegate]: {
+    title: 'Redelegate',
+    args: [
+      { name: 'delegator', label: 'Delegator' },
+      { name: 'validator', label: 'Validator' },
+      { name: 'new_validator', label: 'New Validator' },
+      AMOUNT_ARG,
+    ],
+  },
+  [TransactionEntryPointEnum.ActivateBid]: {
+    title: 'Activate Bid',
+    args: [{ name: 'validator', label: 'Validator' }],
+  },
+  [TransactionEntryPointEnum.ChangeBidPublicKey]: {
+    title: 'Change Bid Public Key',
+    args: [
+      { name: 'public_key', label: 'Validator' },
+      { name: 'new_public_key', label: 'New Public Key' },
+    ],
+  },
+  [TransactionEntryPointEnum.AddReservations]: {
+    title: 'Add Reservations',
+    args: [{ name: 'reservations', label: 'Reservations' }],
+  },
+  [TransactionEntryPointEnum.CancelReservations]: {
+    title: 'Cancel Reservations',
+    args: [
+      { name: 'validator', label: 'Validator' },
+      { name: 'delegators', label: 'Delegators' },
+    ],
+  },
+};
 
-  return transferArgs;
+/**
+ * Parse the arguments of a native entry point into labelled fields. Arguments
+ * unknown to the entry point are still displayed under their own name, so
+ * nothing the user signs is hidden.
+ *
+ * @param descriptor - The native entry point descriptor.
+ * @param args - The runtime arguments of the transaction.
+ * @returns An object formatted for Metamask Casper Snap.
+ */
+function parseNativeEntryPointArgs(
+  descriptor: NativeEntryPointDescriptor,
+  args: Args,
+): Record<string, CLValueNode> {
+  const nativeArgs: Record<string, CLValueNode> = {};
+  const knownArgs = new Set<string>();
+
+  for (const { name, label, motesLabel, suffix } of descriptor.args) {
+    knownArgs.add(name);
+    const argument = args.args.get(name);
+    if (!argument) {
+      continue;
+    }
+    const node = parseCLValue(argument);
+    if (motesLabel) {
+      nativeArgs[label] = formatMotesArg(node);
+      nativeArgs[motesLabel] = node;
+    } else if (suffix && node.value !== undefined) {
+      nativeArgs[label] = { ...node, value: `${node.value}${suffix}` };
+    } else {
+      nativeArgs[label] = node;
+    }
+  }
+
+  for (const [key, node] of Object.entries(parseArgs(args))) {
+    if (!knownArgs.has(key)) {
+      nativeArgs[key] = node;
+    }
+  }
+
+  return nativeArgs;
 }
 
 /**
@@ -141,7 +229,7 @@ function parseTransferData(
  * @param motesAmount - Amount in motes.
  * @returns Amount in string.
  */
-function convertMotesToCasper(motesAmount: string) {
+export function convertMotesToCasper(motesAmount: string) {
   try {
     return FixedNumber.from(motesAmount)
       .divUnsafe(FixedNumber.from(1000000000))
@@ -152,6 +240,199 @@ function convertMotesToCasper(motesAmount: string) {
   }
 }
 
+/**
+ * Format a duration for display, e.g. `1 h 5 min` or `29 min 59 s`.
+ *
+ * @param milliseconds - The duration in milliseconds.
+ * @returns The formatted duration.
+ */
+export function formatDuration(milliseconds: number) {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours} h ${minutes} min`;
+  }
+  if (minutes > 0) {
+    return `${minutes} min ${seconds} s`;
+  }
+  return `${seconds} s`;
+}
+
+/**
+ * Payment details of a transaction, formatted for display.
+ */
+export type PaymentInfo = {
+  paymentType: string;
+  fields: Record<string, string>;
+  // Formatted maximum cost, unset when the transaction has already been paid.
+  estimatedMaxCost?: string;
+  // Maximum cost in motes, when the transaction defines it.
+  maxCost?: string;
+  warning?: string;
+};
+
+const CUSTOM_PAYMENT_WARNING =
+  'This transaction pays its fee with custom payment code instead of the standard payment. Only sign it if you trust the requesting site.';
+
+/**
+ * Format an amount of motes along with its value in CSPR.
+ *
+ * @param motes - Amount in motes.
+ * @returns The formatted amount.
+ */
+function formatMotes(motes: string) {
+  return `${convertMotesToCasper(motes)} CSPR (${motes} motes)`;
+}
+
+/**
+ * Compute the maximum cost of a transaction, which is its payment amount
+ * multiplied by the gas price the user accepts to pay.
+ *
+ * @param paymentAmount - Payment amount in motes.
+ * @param gasPrice - Gas price or gas price tolerance.
+ * @returns The maximum cost in motes and formatted.
+ */
+function estimateMaxCost(
+  paymentAmount: string,
+  gasPrice: string,
+): Pick<PaymentInfo, 'estimatedMaxCost' | 'maxCost'> {
+  try {
+    const maxCost = BigNumber.from(paymentAmount).mul(gasPrice).toString();
+    return { estimatedMaxCost: formatMotes(maxCost), maxCost };
+  } catch {
+    return { estimatedMaxCost: 'Unknown' };
+  }
+}
+
+/**
+ * Parse the payment of a legacy deploy.
+ *
+ * @param deploy - Legacy deploy.
+ * @returns The payment details.
+ */
+function parseDeployPayment(deploy: Deploy): PaymentInfo {
+  const gasPrice = deploy.header.gasPrice.toString();
+  const { moduleBytes } = deploy.payment;
+  if (!moduleBytes) {
+    return {
+      paymentType: 'Custom',
+      fields: { 'Gas Price': gasPrice },
+      warning: CUSTOM_PAYMENT_WARNING,
+    };
+  }
+
+  const amountArg = moduleBytes.args.args.get('amount');
+  const amount = amountArg ? parseCLValue(amountArg).value : undefined;
+  const isStandard = moduleBytes.moduleBytes.length === 0;
+  const fields: Record<string, string> = {};
+  if (amount) {
+    fields['Payment Amount'] = `${convertMotesToCasper(amount)} CSPR`;
+    fields['Payment Motes'] = amount;
+  }
+  fields['Gas Price'] = gasPrice;
+  if (!isStandard) {
+    fields['Payment Code Size'] = `${moduleBytes.moduleBytes.length} bytes`;
+  }
+
+  const payment: PaymentInfo = {
+    paymentType: isStandard ? 'Standard' : 'Custom',
+    fields,
+  };
+  if (amount) {
+    Object.assign(payment, estimateMaxCost(amount, gasPrice));
+  }
+  if (!isStandard) {
+    payment.warning = CUSTOM_PAYMENT_WARNING;
+  }
+  return payment;
+}
+
+/**
+ * Parse the payment of a transaction.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @returns The payment details.
+ */
+export function parsePayment(transaction: Transaction): PaymentInfo {
+  const deploy = transaction.getDeploy();
+  if (deploy) {
+    return parseDeployPayment(deploy);
+  }
+
+  const { paymentLimited, fixed, prepaid } = transaction.pricingMode;
+  if (paymentLimited) {
+    const paymentAmount = paymentLimited.paymentAmount.toFixed(0);
+    const gasPriceTolerance = paymentLimited.gasPriceTolerance.toFixed(0);
+    const payment: PaymentInfo = {
+      paymentType: 'Limited',
+      fields: {
+        'Gas price tolerance': gasPriceTolerance,
+        'Payment Amount': `${convertMotesToCasper(paymentAmount)} CSPR`,
+        'Payment Motes': paymentAmount,
+      },
+      ...estimateMaxCost(paymentAmount, gasPriceTolerance),
+    };
+    if (!paymentLimited.standardPayment) {
+      payment.warning = CUSTOM_PAYMENT_WARNING;
+    }
+    return payment;
+  }
+  if (fixed) {
+    return {
+      paymentType: 'Fixed',
+      fields: {
+        'Gas price tolerance': fixed.gasPriceTolerance.toFixed(0),
+        'Additional Computation Power':
+          fixed.additionalComputationFactor.toFixed(0),
+      },
+      // Fixed pricing charges the gas limit of the transaction lane, which is
+      // defined by the chainspec rather than by the transaction itself.
+      estimatedMaxCost: 'Determined by the network',
+    };
+  }
+  if (prepaid) {
+    return {
+      paymentType: 'Prepaid',
+      fields: { Receipt: prepaid.receipt.toHex() },
+    };
+  }
+  return { paymentType: 'Not supported', fields: {} };
+}
+
+/**
+ * Check if the `amount` argument of a transaction is an amount of CSPR: the
+ * transaction is a native transfer or calls a native entry point. The `amount`
+ * of contract calls is usually a token amount.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @returns `true` if the `amount` argument is in motes.
+ */
+export function isNativeTransaction(transaction: Transaction) {
+  const deploy = transaction.getDeploy();
+  return deploy ? deploy.isTransfer() : transaction.target.native !== undefined;
+}
+
+/**
+ * Get the amount of CSPR moved by a native transaction.
+ *
+ * @param transaction - Transaction from the Casper JS SDK.
+ * @returns The `amount` argument in motes, or `null` if the transaction is not
+ * native, has no amount or its amount cannot be read.
+ */
+export function getNativeAmount(transaction: Transaction) {
+  const amount = transaction.args.args.get('amount');
+  if (!amount || !isNativeTransaction(transaction)) {
+    return null;
+  }
+  try {
+    return BigNumber.from(amount.toString()).toString();
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Parse a transaction into an object.
  *
@@ -184,13 +465,11 @@ export function transactionToObject(
     } else {
       type = 'Contract Package Call';
     }
-    let deployArgs = {} as any;
+    let deployArgs: Record<string, CLValueNode>;
     if (deploy.session.transfer) {
       deployArgs = parseTransferData(deploy.session.transfer);
     } else if (deploy.session.moduleBytes) {
-      deploy.session.moduleBytes.args.args.forEach((argument, key) => {
-        deployArgs[key] = parseDeployArg(argument);
-      });
+      deployArgs = parseArgs(deploy.session.moduleBytes.args);
     } else {
       let storedContract;
       if (deploy.session.storedContractByHash) {
@@ -202,14 +481,18 @@ export function transactionToObject(
       } else if (deploy.session.storedVersionedContractByName) {
         storedContract = deploy.session.storedVersionedContractByName;
       } else {
-        throw new Error(`Stored Contract could not be parsed.\n\
-          Provided session code: ${deploy.session.bytes().toString()}`);
+        throw new CasperError(
+          CasperErrorCode.InvalidTransaction,
+          'Stored Contract could not be parsed.',
+          { session: Conversions.encodeBase16(deploy.session.bytes()) },
+        );
       }
 
-      storedContract.args.args.forEach((argument, key) => {
-        deployArgs[key] = parseDeployArg(argument);
-      });
-      deployArgs['Entry Point'] = storedContract.entryPoint;
+      deployArgs = parseArgs(storedContract.args);
+      deployArgs['Entry Point'] = {
+        type: 'String',
+        value: storedContract.entryPoint,
+      };
     }
     return {
       deployHash: transaction.hash.toHex(),
@@ -219,14 +502,17 @@ export function transactionToObject(
       chainName: transaction.chainName,
       timestamp: new Date(transaction.timestamp.date).toLocaleString(),
       gasPrice: deploy.header.gasPrice.toString(),
+      payment: parsePayment(transaction),
       deployType: type,
       deployArgs,
     };
   } else if (transactionV1) {
-    const deployArgs = {} as any;
-    transaction.args.args.forEach((argument, key) => {
-      deployArgs[key] = parseDeployArg(argument);
-    });
+    const nativeEntryPoint = transaction.target.native
+      ? NATIVE_ENTRY_POINTS[transaction.entryPoint.type]
+      : undefined;
+    const deployArgs = nativeEntryPoint
+      ? parseNativeEntryPointArgs(nativeEntryPoint, transaction.args)
+      : parseArgs(transaction.args);
     return {
       deployHash: transaction.hash.toHex(),
       signingKey,
@@ -234,31 +520,47 @@ export function transactionToObject(
       bodyHash: Conversions.encodeBase16(transaction.entryPoint.toBytes()),
       chainName: transaction.chainName,
       timestamp: new Date(transaction.timestamp.date).toLocaleString(),
+      payment: parsePayment(transaction),
       deployType:
-        transaction.entryPoint.customEntryPoint ?? transaction.entryPoint.type,
+        nativeEntryPoint?.title ??
+        transaction.entryPoint.customEntryPoint ??
+        transaction.entryPoint.type,
       deployArgs,
     };
   }
-  throw new Error('Unsupported transaction type');
+  throw new CasperError(
+    CasperErrorCode.InvalidTransaction,
+    'Unsupported transaction type',
+  );
 }
 
 /**
- * Add a signature to a deploy and validate it.
+ * Add a signature to a deploy and validate it. The approval is appended after
+ * the existing ones, so that partially signed multisig deploys keep the
+ * signatures of the other keys.
  *
  * @param transaction - Transaction object.
  * @param signature - Signature bytes.
  * @param publicKeyHex - Public key hex string.
- * @returns Object - Either an object containing the deploy or an error.
+ * @returns Object - An object containing the signed deploy.
+ * @throws If the transaction does not validate once signed.
  */
 export function addSignatureAndValidateTransaction(
   transaction: Transaction,
   signature: Uint8Array,
   publicKeyHex: string,
 ) {
-  transaction.setSignature(signature, PublicKey.fromHex(publicKeyHex));
+  const publicKey = PublicKey.fromHex(publicKeyHex);
+  // Approvals hold signatures prefixed with the tag of the signing algorithm.
+  const taggedSignature = new Uint8Array([publicKey.cryptoAlg, ...signature]);
+  transaction.setSignature(taggedSignature, publicKey);
 
   if (transaction.validate()) {
-    return { deploy: Transaction.toJSON(transaction) };
+    return { deploy: Transaction.toJSON(transaction) as Json };
   }
-  return { error: 'Unable to verify deploy after signature.' };
+  throw new CasperError(
+    CasperErrorCode.InvalidSignature,
+    'Unable to verify deploy after signature.',
+    { deployHash: transaction.hash.toHex() },
+  );
 }
@@ -0,0 +1,178 @@
+import { expect } from '@jest/globals';
+import { Conversions } from 'casper-js-sdk';
+import {
+  ecdsaSign,
+  publicKeyCreate,
+} from 'ethereum-cryptography/secp256k1-compat';
+import { sha256 } from 'ethereum-cryptography/sha256';
+import * as nacl from 'tweetnacl-ts';
+
+import {
+  decodeMessage,
+  encodeMessage,
+  encodeSignInMessage,
+  verifyApproval,
+  verifyMessage,
+  verifySignature,
+  verifySignIn,
+} from './verify';
+
+const SEED = new Uint8Array(32).fill(7);
+
+const ED25519_KEY_PAIR = nacl.sign_keyPair_fromSeed(SEED);
+
+const ED25519_PUBLIC_KEY = `01${Conversions.encodeBase16(
+  ED25519_KEY_PAIR.publicKey,
+)}`;
+
+const SECP256K1_PUBLIC_KEY = `02${Conversions.encodeBase16(
+  publicKeyCreate(SEED, true),
+)}`;
+
+const DEPLOY_HASH = 'ab'.repeat(32);
+
+/**
+ * Sign bytes the way the snap does.
+ *
+ * @param bytes - The bytes to sign.
+ * @param curve - The curve of the key.
+ * @returns The hex encoded signature, without tag.
+ */
+function sign(bytes: Uint8Array, curve: 'ed25519' | 'secp256k1') {
+  return Conversions.encodeBase16(
+    curve === 'ed25519'
+      ? nacl.sign_detached(bytes, ED25519_KEY_PAIR.secretKey)
+      : ecdsaSign(sha256(bytes), SEED).signature,
+  );
+}
+
+describe('decodeMessage', () => {
+  it('decodes UTF-8, hex and base64 messages', () => {
+    const bytes = Uint8Array.of(0xca, 0xfe, 0x01);
+
+    expect(decodeMessage('Hi')).toStrictEqual(Uint8Array.of(0x48, 0x69));
+    expect(decodeMessage('0xcafe01', 'hex')).toStrictEqual(bytes);
+    expect(decodeMessage('CAFE01', 'hex')).toStrictEqual(bytes);
+    expect(decodeMessage('yv4B', 'base64')).toStrictEqual(bytes);
+  });
+
+  it.each([
+    ['cafe0', 'hex'],
+    ['zz', 'hex'],
+    ['yv4', 'base64'],
+    ['yv4*', 'base64'],
+  ] as const)('returns null for %s as %s', (message, encoding) => {
+    expect(decodeMessage(message, encoding)).toBeNull();
+  });
+});
+
+describe('verifyMessage', () => {
+  it.each([
+    ['ed25519', ED25519_PUBLIC_KEY],
+    ['secp256k1', SECP256K1_PUBLIC_KEY],
+  ] as const)('verifies a %s message signature', (curve, publicKey) => {
+    const signature = sign(encodeMessage('Hello Casper'), curve);
+
+    expect(verifyMessage('Hello Casper', signature, publicKey)).toBe(true);
+    expect(verifyMessage('Hello Casper!', signature, publicKey)).toBe(false);
+  });
+
+  it('does not verify a signature of the unprefixed message', () => {
+    const signature = sign(new TextEncoder().encode('Hello Casper'), 'ed25519');
+
+    expect(verifyMessage('Hello Casper', signature, ED25519_PUBLIC_KEY)).toBe(
+      false,
+    );
+    expect(
+      verifyMessage('Hello Casper', signature, ED25519_PUBLIC_KEY, {
+        prefix: false,
+      }),
+    ).toBe(true);
+  });
+
+  it('verifies a signature of an encoded message', () => {
+    const signature = sign(encodeMessage(Uint8Array.of(0xca, 0xfe)), 'ed25519');
+
+    expect(
+      verifyMessage('cafe', signature, ED25519_PUBLIC_KEY, { encoding: 'hex' }),
+    ).toBe(true);
+    expect(
+      verifyMessage('cafe', signature, ED25519_PUBLIC_KEY, {
+        encoding: 'base64',
+      }),
+    ).toBe(false);
+  });
+});
+
+describe('verifySignIn', () => {
+  it('verifies a sign-in signature but not a message signature', () => {
+    const message =
+      'example.com wants you to sign in with your Casper account:';
+
+    expect(
+      verifySignIn(
+        message,
+        sign(encodeSignInMessage(message), 'secp256k1'),
+        SECP256K1_PUBLIC_KEY,
+      ),
+    ).toBe(true);
+    expect(
+      verifySignIn(
+        message,
+        sign(encodeMessage(message), 'secp256k1'),
+        SECP256K1_PUBLIC_KEY,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe('verifyApproval', () => {
+  it.each([
+    ['ed25519', ED25519_PUBLIC_KEY, '01'],
+    ['secp256k1', SECP256K1_PUBLIC_KEY, '02'],
+  ] as const)('verifies a %s approval', (curve, signer, tag) => {
+    const signature = `${tag}${sign(
+      Conversions.decodeBase16(DEPLOY_HASH),
+      curve,
+    )}`;
+
+    expect(verifyApproval(DEPLOY_HASH, { signer, signature })).toBe(true);
+    expect(verifyApproval('cd'.repeat(32), { signer, signature })).toBe(false);
+  });
+});
+
+describe('verifySignature', () => {
+  const bytes = new TextEncoder().encode('bytes');
+
+  it('refuses a signature tagged with another algorithm', () => {
+    const signature = `02${sign(bytes, 'ed25519')}`;
+
+    expect(verifySignature(bytes, signature, ED25519_PUBLIC_KEY)).toBe(false);
+  });
+
+  it('accepts compact secp256k1 signatures', () => {
+    const { signature, recid } = ecdsaSign(sha256(bytes), SEED);
+    const compact = `${Conversions.encodeBase16(signature)}0${recid}`;
+
+    expect(verifySignature(bytes, compact, SECP256K1_PUBLIC_KEY)).toBe(true);
+    expect(verifySignature(bytes, compact, ED25519_PUBLIC_KEY)).toBe(false);
+  });
+
+  it('accepts checksummed public keys', () => {
+    const signature = sign(bytes, 'ed25519');
+
+    expect(
+      verifySignature(bytes, signature, ED25519_PUBLIC_KEY.toUpperCase()),
+    ).toBe(true);
+  });
+
+  it('refuses malformed input', () => {
+    const signature = sign(bytes, 'ed25519');
+
+    expect(verifySignature(bytes, 'zz', ED25519_PUBLIC_KEY)).toBe(false);
+    expect(verifySignature(bytes, signature.slice(2), ED25519_PUBLIC_KEY)).toBe(
+      false,
+    );
+    expect(verifySignature(bytes, signature, '03abcd')).toBe(false);
+  });
+});
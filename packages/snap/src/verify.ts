@@ -0,0 +1,221 @@
+import { ecdsaVerify } from 'ethereum-cryptography/secp256k1-compat';
+import { sha256 } from 'ethereum-cryptography/sha256';
+import * as nacl from 'tweetnacl-ts';
+
+/**
+ * The prefix of the messages signed by `casper_signMessage`, so that a message
+ * signature can never be a valid deploy signature.
+ */
+export const MESSAGE_PREFIX = 'Casper Message:\n';
+
+/**
+ * The prefix of the messages signed by `casper_signIn`. It differs from
+ * {@link MESSAGE_PREFIX}, so that a site cannot get a sign-in for another
+ * domain by passing its text to `casper_signMessage`.
+ */
+export const SIGN_IN_PREFIX = 'Casper Sign-In:\n';
+
+/**
+ * How the message given to `casper_signMessage` is encoded.
+ */
+export type MessageEncoding = 'utf8' | 'hex' | 'base64';
+
+/**
+ * How a message is signed and verified.
+ */
+export type MessageOptions = {
+  // Defaults to `utf8`.
+  encoding?: MessageEncoding | undefined;
+  // Whether the bytes are prefixed with {@link MESSAGE_PREFIX}, the default.
+  // Unprefixed messages may be valid deploy approvals.
+  prefix?: boolean | undefined;
+};
+
+const ED25519_TAG = 0x01;
+
+const SECP256K1_TAG = 0x02;
+
+/**
+ * Decode a hex string.
+ *
+ * @param encoded - The hex string, with or without `0x` prefix.
+ * @returns The bytes, or `null` if the string is not hex.
+ */
+function decodeHex(encoded: string) {
+  const digits = encoded.startsWith('0x') ? encoded.slice(2) : encoded;
+  if (digits.length % 2 !== 0 || !/^[0-9a-fA-F]*$/u.test(digits)) {
+    return null;
+  }
+  return Uint8Array.from(digits.match(/../gu) ?? [], (byte) =>
+    parseInt(byte, 16),
+  );
+}
+
+/**
+ * Decode a message given to `casper_signMessage`.
+ *
+ * @param message - The encoded message.
+ * @param encoding - How the message is encoded.
+ * @returns The message bytes, or `null` if the message is not validly
+ * encoded.
+ */
+export function decodeMessage(
+  message: string,
+  encoding: MessageEncoding = 'utf8',
+) {
+  if (encoding === 'hex') {
+    return decodeHex(message);
+  }
+  if (encoding === 'base64') {
+    if (message.length % 4 !== 0 || !/^[A-Za-z0-9+/]*={0,2}$/u.test(message)) {
+      return null;
+    }
+    return Uint8Array.from(atob(message), (char) => char.charCodeAt(0));
+  }
+  return new TextEncoder().encode(message);
+}
+
+/**
+ * Get the bytes signed by `casper_signMessage` for a message.
+ *
+ * @param message - The message, as a string to UTF-8 encode or as bytes.
+ * @param prefix - Whether to prefix the message with {@link MESSAGE_PREFIX}.
+ * @returns The bytes to sign.
+ */
+export function encodeMessage(message: string | Uint8Array, prefix = true) {
+  const bytes =
+    typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  if (!prefix) {
+    return bytes;
+  }
+  return new Uint8Array([
+    ...new TextEncoder().encode(MESSAGE_PREFIX),
+    ...bytes,
+  ]);
+}
+
+/**
+ * Get the bytes signed by `casper_signIn` for a sign-in message.
+ *
+ * @param message - The sign-in message.
+ * @returns The bytes to sign.
+ */
+export function encodeSignInMessage(message: string) {
+  return new TextEncoder().encode(`${SIGN_IN_PREFIX}${message}`);
+}
+
+/**
+ * Verify a signature made by a Casper account. Ed25519 keys sign the bytes
+ * themselves, Secp256k1 keys sign their SHA-256 digest.
+ *
+ * @param bytes - The signed bytes.
+ * @param signature - Hex encoded signature, with or without the tag of the
+ * algorithm. Secp256k1 signatures may also be in the compact form, followed by
+ * their recovery id.
+ * @param publicKey - Hex encoded public key, prefixed with the tag of the
+ * algorithm. Checksummed keys are accepted.
+ * @returns `true` if the signature is valid, `false` if it is invalid or
+ * malformed.
+ */
+export function verifySignature(
+  bytes: Uint8Array,
+  signature: string,
+  publicKey: string,
+) {
+  const keyBytes = decodeHex(publicKey);
+  const signatureBytes = decodeHex(signature);
+  if (!keyBytes || !signatureBytes || keyBytes.length === 0) {
+    return false;
+  }
+  const [tag] = keyBytes;
+  const candidates: Uint8Array[] = [];
+  if (signatureBytes.length === 64) {
+    candidates.push(signatureBytes);
+  } else if (signatureBytes.length === 65) {
+    if (signatureBytes[0] === tag) {
+      candidates.push(signatureBytes.slice(1));
+    }
+    // A compact signature may also start with the tag, so both readings are
+    // tried.
+    const recoveryId = signatureBytes[64];
+    if (tag === SECP256K1_TAG && (recoveryId === 0 || recoveryId === 1)) {
+      candidates.push(signatureBytes.slice(0, 64));
+    }
+  }
+
+  return candidates.some((candidate) => {
+    try {
+      if (tag === ED25519_TAG && keyBytes.length === 33) {
+        return nacl.sign_detached_verify(bytes, candidate, keyBytes.slice(1));
+      }
+      if (tag === SECP256K1_TAG && keyBytes.length === 34) {
+        return ecdsaVerify(candidate, sha256(bytes), keyBytes.slice(1));
+      }
+    } catch {
+      return false;
+    }
+    return false;
+  });
+}
+
+/**
+ * Verify a signature returned by `casper_signMessage`.
+ *
+ * @param message - The message, without prefix.
+ * @param signature - Hex encoded signature.
+ * @param publicKey - Hex encoded public key of the signing account.
+ * @param options - The options the message was signed with.
+ * @param options.encoding - How the message is encoded.
+ * @param options.prefix - Whether the message was signed with its prefix.
+ * @returns `true` if the signature is valid.
+ */
+export function verifyMessage(
+  message: string,
+  signature: string,
+  publicKey: string,
+  { encoding = 'utf8', prefix = true }: MessageOptions = {},
+) {
+  const bytes = decodeMessage(message, encoding);
+  return (
+    bytes !== null &&
+    verifySignature(encodeMessage(bytes, prefix), signature, publicKey)
+  );
+}
+
+/**
+ * Verify a signature returned by `casper_signIn`. Signatures of the same text
+ * made by `casper_signMessage` are not valid sign-ins.
+ *
+ * @param message - The sign-in message.
+ * @param signature - Hex encoded signature.
+ * @param publicKey - Hex encoded public key of the signing account.
+ * @returns `true` if the signature is valid.
+ */
+export function verifySignIn(
+  message: string,
+  signature: string,
+  publicKey: string,
+) {
+  return verifySignature(encodeSignInMessage(message), signature, publicKey);
+}
+
+/**
+ * Verify an approval of a deploy or transaction.
+ *
+ * @param deployHash - Hex encoded hash of the deploy or transaction.
+ * @param approval - The approval, as found in the deploy JSON.
+ * @param approval.signer - Hex encoded public key of the signer.
+ * @param approval.signature - Hex encoded tagged signature.
+ * @returns `true` if the approval is a valid signature of the hash.
+ */
+export function verifyApproval(
+  deployHash: string,
+  approval: { signer: string; signature: string },
+) {
+  const hash = decodeHex(deployHash);
+  return (
+    hash !== null &&
+    hash.length === 32 &&
+    verifySignature(hash, approval.signature, approval.signer)
+  );
+}